@@ -1,92 +1,154 @@
 import './App.css'
-import { For, Show, createSignal, onCleanup, onMount } from 'solid-js'
+import { For, Show, createMemo, createSignal, onCleanup, onMount } from 'solid-js'
 import { BenchmarkCard } from './BenchmarkCard.tsx'
+import { HistoryPanel } from './HistoryPanel.tsx'
+import { PlanEditor } from './PlanEditor.tsx'
+import { ReportPanel } from './ReportPanel.tsx'
+import { type ActiveBenchmark, RunProgress } from './RunProgress.tsx'
+import { SweepMatrix } from './SweepMatrix.tsx'
+import { TabContention } from './TabContention.tsx'
 import { StoragePersistence } from './StoragePersistence' // Import the new component
+import { DEFAULT_PAGE_SIZE, DEFAULT_SAMPLE_SIZE, DEFAULT_SEED } from './access.ts'
+import { backends } from './backends.ts'
+import { type BenchmarkResult, traversalBenchmark } from './benchmarks'
+import { batchByteLimits, chunkSizes } from './chunked.ts'
 import {
-  type BenchmarkResult,
-  benchmarkLoopOnly,
-  benchmarkReadFromIndexedDB,
-  benchmarkWriteToIndexedDB,
-} from './benchmarks'
-import { initIDB } from './idb.ts'
-import { closeDB, deleteDB, initIndexedDB } from './indexeddb.ts' // Added deleteDB import
-
-// Define types for file system entries and benchmark configurations
-type FileSystemEntry = any // This would be more specific in a real app
-
-export type BenchmarkConfig = {
-  id: string
-  title: string
-  runBenchmark: (entries?: Array<FileSystemEntry>) => Promise<BenchmarkResult>
-}
-
-const benchmarks: Array<BenchmarkConfig> = [
-  {
-    id: 'loop',
-    title: 'Loop Only',
-    runBenchmark: (entries: Array<FileSystemEntry> = []) => benchmarkLoopOnly(entries),
-  },
-  // Original IndexedDB benchmarks
-  {
-    id: 'write',
-    title: 'Write to IndexedDB',
-    runBenchmark: (entries: Array<FileSystemEntry> = []) =>
-      benchmarkWriteToIndexedDB(entries, false),
-  },
-  {
-    id: 'write-overwrite',
-    title: 'Write to IndexedDB (overwrite)',
-    runBenchmark: (entries: Array<FileSystemEntry> = []) =>
-      benchmarkWriteToIndexedDB(entries, false),
-  },
-  {
-    id: 'read',
-    title: 'Read from IndexedDB (Batched)',
-    runBenchmark: () => benchmarkReadFromIndexedDB(false),
-  },
-  // New IDB benchmarks
-  {
-    id: 'idb-write',
-    title: 'Write to IDB',
-    runBenchmark: (entries: Array<FileSystemEntry> = []) =>
-      benchmarkWriteToIndexedDB(entries, true),
-  },
-  {
-    id: 'idb-write-overwrite',
-    title: 'Write to IDB (overwrite)',
-    runBenchmark: (entries: Array<FileSystemEntry> = []) =>
-      benchmarkWriteToIndexedDB(entries, true),
-  },
-  {
-    id: 'idb-read',
-    title: 'Read from IDB (Batched)',
-    runBenchmark: () => benchmarkReadFromIndexedDB(true),
-  },
-]
+  type Codec,
+  type CompressionScope,
+  DEFAULT_COMPRESSION_THRESHOLD,
+  codecs,
+} from './codec.ts'
+import { DEFAULT_CONCURRENCY, deleteLayouts } from './concurrency.ts'
+import { type ValueEncoding, valueEncodings } from './encoding.ts'
+import type { FileSource } from './files.ts'
+import { datasetPresets, datasetSource, describeDataset } from './generator.ts'
+import { parseHeadlessParams, publishHeadlessState } from './headless.ts'
+import { saveRun } from './history.ts'
+import {
+  type Ingestion,
+  canPickDirectory,
+  ingestDirectoryHandle,
+  ingestDrop,
+  ingestFileList,
+} from './ingest.ts'
+import { type RunPlan, defaultPlan } from './plan.ts'
+import { type BenchmarkReport, type DatasetDescription, createReport } from './report.ts'
+import {
+  type BenchmarkSelection,
+  type RunConfig,
+  type RunEvent,
+  defaultRunConfig,
+  runBenchmarks,
+  selectSteps,
+} from './runner.ts'
+import { runInWorker } from './runnerClient.ts'
+import type { RunnerInput } from './runner.worker.ts'
+import { defaultSweepConfig } from './sweep.ts'
+import { formatBytes } from './utils.ts'
 
 function App() {
   const [isProcessing, setIsProcessing] = createSignal(false)
-  const [results, setResults] = createSignal<Record<string, BenchmarkResult | null>>({
-    loop: null,
-    write: null,
-    'write-overwrite': null,
-    read: null,
+  const [useWorker, setUseWorker] = createSignal(false)
+  const [results, setResults] = createSignal<Record<string, BenchmarkResult | null>>({})
+  const [presetId, setPresetId] = createSignal(datasetPresets[0].id)
+  const [dataset, setDataset] = createSignal<DatasetDescription | null>(null)
+  const [runConfig, setRunConfig] = createSignal<RunConfig>(defaultRunConfig)
+  const [sweepMode, setSweepMode] = createSignal(false)
+  // Steps the next run goes through, unless sweeping
+  const [plan, setPlan] = createSignal<RunPlan>(defaultPlan())
+  // Benchmarks of the current or last run, in run order
+  const [selection, setSelection] = createSignal<BenchmarkSelection>({
+    kind: 'plan',
+    plan: plan(),
+  })
+  // Traversal runs first in every run, see runBenchmarks(). An invalid plan selects nothing,
+  // the plan editor says what's wrong with it.
+  const activeBenchmarks = createMemo(() => {
+    try {
+      return [traversalBenchmark, ...selectSteps(selection())]
+    } catch {
+      return [traversalBenchmark]
+    }
+  })
+  const activeSweep = createMemo(() => {
+    const current = selection()
+    return current.kind === 'sweep' ? current.sweep : null
+  })
+  // Settings of the run the current results belong to
+  const [runInfo, setRunInfo] = createSignal<Pick<BenchmarkReport, 'createdAt' | 'config'> | null>(
+    null,
+  )
+
+  const [historyVersion, setHistoryVersion] = createSignal(0)
+
+  const [activeBenchmark, setActiveBenchmark] = createSignal<ActiveBenchmark | null>(null)
+  const [cancelling, setCancelling] = createSignal(false)
+  // Aborts the current run, partial results are kept and the databases still get cleaned up
+  let runController: AbortController | null = null
+
+  const report = createMemo(() => {
+    const info = runInfo()
+    const currentDataset = dataset()
+    if (!info || !currentDataset) return null
+
+    const entries = activeBenchmarks()
+      .filter((benchmark) => results()[benchmark.id])
+      .map((benchmark) => ({
+        id: benchmark.id,
+        title: benchmark.title,
+        result: results()[benchmark.id]!,
+      }))
+    if (entries.length === 0) return null
+    return createReport({ ...info, dataset: currentDataset, results: entries })
   })
 
   // Initialize the database when the component mounts
   onMount(async () => {
     try {
-      // Initialize the database
-      await initIndexedDB()
-      await initIDB()
+      // Initialize every storage backend
+      for (const backend of backends) {
+        await backend.init()
+      }
     } catch (error) {
       console.error('Failed to initialize database:', error)
     }
+
+    await runHeadless()
   })
 
+  // Unattended run picked by URL parameters, see headless.ts
+  const runHeadless = async (): Promise<void> => {
+    let headless: ReturnType<typeof parseHeadlessParams>
+    try {
+      headless = parseHeadlessParams(window.location.search)
+    } catch (error) {
+      publishHeadlessState({ status: 'error', error: String(error) })
+      return
+    }
+    if (!headless) return
+
+    const { spec, output } = headless
+    publishHeadlessState({ status: 'running' }, output)
+    setUseWorker(headless.useWorker)
+    setSweepMode(false)
+    setRunConfig(headless.runConfig)
+    setDataset({ label: `Synthetic: ${describeDataset(spec)}`, spec })
+    setPlan(headless.plan)
+    const failure = await runAll(datasetSource(spec), async () => ({ kind: 'dataset', spec }))
+    const finished = report()
+    publishHeadlessState(
+      failure || !finished
+        ? { status: 'error', error: failure ?? 'The run produced no report' }
+        : { status: 'done', report: finished },
+      output,
+    )
+  }
+
   // Close the database when the component unmounts
   onCleanup(() => {
-    closeDB()
+    for (const backend of backends) {
+      backend.close()
+    }
   })
 
   // Prevent default to allow drop
@@ -94,69 +156,153 @@ function App() {
     e.preventDefault()
   }
 
-  // Handle the drop event
-  const handleDrop = async (e: DragEvent): Promise<void> => {
-    e.preventDefault()
-
-    if (isProcessing()) return
+  // Run the plan's enabled steps, or the sweep, against one input,
+  // on the main thread or in a worker
+  // Resolves with why the run didn't complete, null when it did
+  const runAll = async (
+    mainSource: FileSource,
+    getWorkerInput: () => Promise<RunnerInput>,
+  ): Promise<string | null> => {
     setIsProcessing(true)
+    setCancelling(false)
+    runController = new AbortController()
+    const signal = runController.signal
 
     // Reset benchmark results
-    setResults({
-      loop: null,
-      write: null,
-      'write-overwrite': null,
-      read: null,
+    setResults({})
+    const currentSelection: BenchmarkSelection = sweepMode()
+      ? { kind: 'sweep', sweep: defaultSweepConfig }
+      : { kind: 'plan', plan: plan() }
+    setSelection(currentSelection)
+    setRunInfo({
+      createdAt: new Date().toISOString(),
+      config: {
+        ...runConfig(),
+        thread: useWorker() ? 'worker' : 'main',
+        sweep: currentSelection.kind === 'sweep' ? currentSelection.sweep : undefined,
+        plan: currentSelection.kind === 'plan' ? currentSelection.plan : undefined,
+      },
     })
 
+    // Only runs that got through every step go into the history
+    let completed = false
+    let failure = 'Cancelled'
     try {
-      if (!e.dataTransfer?.items) {
-        return
-      }
-
-      const rootEntries: Array<FileSystemEntry> = []
-      for (let i = 0; i < e.dataTransfer.items.length; i++) {
-        const item = e.dataTransfer.items[i] as any
-        if (item.kind === 'file') {
-          const entry = item.webkitGetAsEntry()
-          if (entry) {
-            rootEntries.push(entry)
-          }
-        }
-      }
-      for (const benchmark of benchmarks) {
-        try {
-          let result: BenchmarkResult
-
-          console.log(`${benchmark.title} START`)
-          if (benchmark.id === 'read') {
-            // Read benchmark doesn't need entries
-            result = await benchmark.runBenchmark()
-          } else {
-            // Other benchmarks need entries
-            result = await benchmark.runBenchmark([...rootEntries])
-          }
-          console.log(`${benchmark.title} DONE`)
-
+      const titles = new Map(
+        [traversalBenchmark, ...selectSteps(currentSelection)].map((step) => [step.id, step.title]),
+      )
+      const onEvent = (event: RunEvent) => {
+        if (event.type === 'start') {
+          setActiveBenchmark({
+            title: titles.get(event.benchmarkId) ?? event.benchmarkId,
+            startedAt: performance.now(),
+            progress: null,
+          })
+        } else if (event.type === 'progress') {
+          setActiveBenchmark((prev) => prev && { ...prev, progress: event.progress })
+        } else if (event.type === 'result') {
           // Update results after each benchmark for better UX
           setResults((prev) => ({
             ...prev,
-            [benchmark.id]: result,
+            [event.benchmarkId]: event.result,
           }))
-        } catch (error) {
-          console.error(`Error running ${benchmark.title} benchmark:`, error)
         }
       }
+
+      if (useWorker()) {
+        // The worker deletes and reopens the same databases, so don't keep them open here
+        for (const backend of backends) {
+          backend.close()
+        }
+        await runInWorker(currentSelection, await getWorkerInput(), runConfig(), onEvent, signal)
+      } else {
+        await runBenchmarks(currentSelection, mainSource, runConfig(), onEvent, signal)
+      }
+      completed = !signal.aborted
     } catch (error) {
       console.error('Error during benchmarking:', error)
+      if (!signal.aborted) failure = String(error)
     } finally {
+      runController = null
+      setActiveBenchmark(null)
+
+      // Delete every backend's data after benchmarks complete, or after a cancelled run
+      for (const backend of backends) {
+        try {
+          await backend.destroy()
+        } catch (error) {
+          console.error(`Error deleting ${backend.title} storage:`, error)
+        }
+      }
       try {
-        await deleteDB() // Delete the database after benchmarks complete
+        await deleteLayouts()
       } catch (error) {
-        console.error('Error deleting database:', error)
+        console.error('Error deleting concurrency databases:', error)
+      }
+
+      // Keep the completed run in the history database, cancelled or failed runs are partial
+      const finished = report()
+      if (completed && finished) {
+        try {
+          await saveRun(finished)
+          setHistoryVersion((version) => version + 1)
+        } catch (error) {
+          console.error('Error saving run to history:', error)
+        }
       }
       setIsProcessing(false)
     }
+    return completed ? null : failure
+  }
+
+  // Run the benchmarks against a dropped or picked folder
+  const runIngestion = async (ingestion: Ingestion | null): Promise<void> => {
+    if (!ingestion) return
+    setDataset({ label: ingestion.label })
+    await runAll(ingestion.source, ingestion.workerInput)
+  }
+
+  // Handle the drop event
+  const handleDrop = async (e: DragEvent): Promise<void> => {
+    e.preventDefault()
+
+    if (isProcessing() || !e.dataTransfer?.items) return
+    await runIngestion(ingestDrop(e.dataTransfer))
+  }
+
+  // Pick a folder through the File System Access API
+  const handlePickDirectory = async (): Promise<void> => {
+    if (isProcessing()) return
+    let handle: FileSystemDirectoryHandle
+    try {
+      handle = await window.showDirectoryPicker!({ mode: 'read' })
+    } catch (error) {
+      // Dismissing the picker rejects with an AbortError
+      if ((error as DOMException).name !== 'AbortError') {
+        console.error('Error picking directory:', error)
+      }
+      return
+    }
+    await runIngestion(ingestDirectoryHandle(handle))
+  }
+
+  // Fallback folder picker for browsers without showDirectoryPicker()
+  const handleFolderInput = async (e: Event & { currentTarget: HTMLInputElement }) => {
+    const input = e.currentTarget
+    if (isProcessing() || !input.files) return
+    const ingestion = ingestFileList(input.files)
+    // Let the same folder be picked again
+    input.value = ''
+    await runIngestion(ingestion)
+  }
+
+  // Run the benchmarks against the selected synthetic dataset
+  const handleGenerate = async (): Promise<void> => {
+    const preset = datasetPresets.find((preset) => preset.id === presetId())
+    if (isProcessing() || !preset) return
+
+    setDataset({ label: `Synthetic: ${describeDataset(preset.spec)}`, spec: preset.spec })
+    await runAll(datasetSource(preset.spec), async () => ({ kind: 'dataset', spec: preset.spec }))
   }
 
   return (
@@ -166,12 +312,293 @@ function App() {
         <a href="https://github.com/hyperknot/indexeddb_opfs">GitHub</a>
       </p>
       <p>
-        Drop a local folder on the drag and drop area, it'll benchmark how much time is required to
-        store it.
+        Drop a local folder on the drag and drop area, or pick a synthetic dataset, it'll benchmark
+        how much time is required to store it.
       </p>
       {/* Use the StoragePersistence component */}
       <StoragePersistence />
 
+      <label class="run-options">
+        <input
+          type="checkbox"
+          checked={useWorker()}
+          disabled={isProcessing()}
+          onChange={(e) => setUseWorker(e.currentTarget.checked)}
+        />{' '}
+        Run benchmarks in a Web Worker
+      </label>
+
+      <label class="run-options">
+        <input
+          type="checkbox"
+          checked={sweepMode()}
+          disabled={isProcessing()}
+          onChange={(e) => setSweepMode(e.currentTarget.checked)}
+        />{' '}
+        Sweep batch size, durability and transaction mode (IndexedDB backends)
+      </label>
+
+      <Show when={!sweepMode()}>
+        <PlanEditor plan={plan()} onChange={setPlan} disabled={isProcessing()} />
+      </Show>
+
+      <div class="run-options">
+        <label>
+          Warm-up iterations{' '}
+          <input
+            type="number"
+            min="0"
+            value={runConfig().warmupIterations}
+            disabled={isProcessing()}
+            onChange={(e) =>
+              setRunConfig((prev) => ({
+                ...prev,
+                warmupIterations: Math.max(0, e.currentTarget.valueAsNumber || 0),
+              }))
+            }
+          />
+        </label>{' '}
+        <label>
+          Measured iterations{' '}
+          <input
+            type="number"
+            min="1"
+            value={runConfig().iterations}
+            disabled={isProcessing()}
+            onChange={(e) =>
+              setRunConfig((prev) => ({
+                ...prev,
+                iterations: Math.max(1, e.currentTarget.valueAsNumber || 1),
+              }))
+            }
+          />
+        </label>
+      </div>
+
+      <div class="run-options">
+        <label>
+          IndexedDB value encoding{' '}
+          <select
+            value={runConfig().storage.encoding ?? 'file'}
+            disabled={isProcessing()}
+            onChange={(e) =>
+              setRunConfig((prev) => ({
+                ...prev,
+                storage: { ...prev.storage, encoding: e.currentTarget.value as ValueEncoding },
+              }))
+            }
+          >
+            <For each={valueEncodings}>
+              {(encoding) => <option value={encoding.id}>{encoding.title}</option>}
+            </For>
+          </select>
+        </label>{' '}
+        <label>
+          <input
+            type="checkbox"
+            checked={runConfig().storage.materialize ?? false}
+            disabled={isProcessing()}
+            onChange={(e) =>
+              setRunConfig((prev) => ({
+                ...prev,
+                storage: { ...prev.storage, materialize: e.currentTarget.checked },
+              }))
+            }
+          />{' '}
+          Materialize content on read
+        </label>{' '}
+        <label>
+          <input
+            type="checkbox"
+            checked={runConfig().storage.verify ?? false}
+            disabled={isProcessing()}
+            onChange={(e) =>
+              setRunConfig((prev) => ({
+                ...prev,
+                storage: { ...prev.storage, verify: e.currentTarget.checked },
+              }))
+            }
+          />{' '}
+          Verify content (SHA-256)
+        </label>
+      </div>
+
+      <div class="run-options">
+        <label>
+          Random sample size{' '}
+          <input
+            type="number"
+            min="1"
+            value={runConfig().storage.sampleSize ?? DEFAULT_SAMPLE_SIZE}
+            disabled={isProcessing()}
+            onChange={(e) =>
+              setRunConfig((prev) => ({
+                ...prev,
+                storage: {
+                  ...prev.storage,
+                  sampleSize: Math.max(1, e.currentTarget.valueAsNumber || DEFAULT_SAMPLE_SIZE),
+                },
+              }))
+            }
+          />
+        </label>{' '}
+        <label>
+          Seed{' '}
+          <input
+            type="number"
+            value={runConfig().storage.seed ?? DEFAULT_SEED}
+            disabled={isProcessing()}
+            onChange={(e) =>
+              setRunConfig((prev) => ({
+                ...prev,
+                storage: { ...prev.storage, seed: e.currentTarget.valueAsNumber || DEFAULT_SEED },
+              }))
+            }
+          />
+        </label>{' '}
+        <label>
+          getAll page size{' '}
+          <input
+            type="number"
+            min="1"
+            value={runConfig().storage.pageSize ?? DEFAULT_PAGE_SIZE}
+            disabled={isProcessing()}
+            onChange={(e) =>
+              setRunConfig((prev) => ({
+                ...prev,
+                storage: {
+                  ...prev.storage,
+                  pageSize: Math.max(1, e.currentTarget.valueAsNumber || DEFAULT_PAGE_SIZE),
+                },
+              }))
+            }
+          />
+        </label>{' '}
+        <label>
+          Concurrency (N){' '}
+          <input
+            type="number"
+            min="1"
+            value={runConfig().storage.concurrency ?? DEFAULT_CONCURRENCY}
+            disabled={isProcessing()}
+            onChange={(e) =>
+              setRunConfig((prev) => ({
+                ...prev,
+                storage: {
+                  ...prev.storage,
+                  concurrency: Math.max(1, e.currentTarget.valueAsNumber || DEFAULT_CONCURRENCY),
+                },
+              }))
+            }
+          />
+        </label>
+      </div>
+
+      <div class="run-options">
+        <label>
+          Chunk size{' '}
+          <select
+            value={runConfig().storage.chunkSize ?? 0}
+            disabled={isProcessing()}
+            onChange={(e) =>
+              setRunConfig((prev) => ({
+                ...prev,
+                storage: { ...prev.storage, chunkSize: Number(e.currentTarget.value) || undefined },
+              }))
+            }
+          >
+            <option value={0}>Off (whole files)</option>
+            <For each={chunkSizes}>
+              {(size) => <option value={size}>{formatBytes(size)}</option>}
+            </For>
+          </select>
+        </label>{' '}
+        <label>
+          Flush write batches at{' '}
+          <select
+            value={runConfig().storage.batchBytes ?? 0}
+            disabled={isProcessing()}
+            onChange={(e) =>
+              setRunConfig((prev) => ({
+                ...prev,
+                storage: {
+                  ...prev.storage,
+                  batchBytes: Number(e.currentTarget.value) || undefined,
+                },
+              }))
+            }
+          >
+            <option value={0}>File count only</option>
+            <For each={batchByteLimits}>
+              {(size) => <option value={size}>{formatBytes(size)}</option>}
+            </For>
+          </select>
+        </label>
+      </div>
+
+      <div class="run-options">
+        <label>
+          Compression{' '}
+          <select
+            value={runConfig().storage.compression ?? ''}
+            disabled={isProcessing()}
+            onChange={(e) =>
+              setRunConfig((prev) => ({
+                ...prev,
+                storage: {
+                  ...prev.storage,
+                  compression: (e.currentTarget.value || undefined) as Codec | undefined,
+                },
+              }))
+            }
+          >
+            <option value="">Off</option>
+            <For each={codecs}>{(codec) => <option value={codec}>{codec}</option>}</For>
+          </select>
+        </label>{' '}
+        <label>
+          Compress{' '}
+          <select
+            value={runConfig().storage.compressionScope ?? 'file'}
+            disabled={isProcessing() || !runConfig().storage.compression}
+            onChange={(e) =>
+              setRunConfig((prev) => ({
+                ...prev,
+                storage: {
+                  ...prev.storage,
+                  compressionScope: e.currentTarget.value as CompressionScope,
+                },
+              }))
+            }
+          >
+            <option value="file">Whole files</option>
+            <option value="chunk">Each chunk</option>
+          </select>
+        </label>{' '}
+        <label>
+          Keep if below{' '}
+          <input
+            type="number"
+            min="0.05"
+            max="1"
+            step="0.05"
+            value={runConfig().storage.compressionThreshold ?? DEFAULT_COMPRESSION_THRESHOLD}
+            disabled={isProcessing() || !runConfig().storage.compression}
+            onChange={(e) =>
+              setRunConfig((prev) => ({
+                ...prev,
+                storage: {
+                  ...prev.storage,
+                  compressionThreshold:
+                    e.currentTarget.valueAsNumber || DEFAULT_COMPRESSION_THRESHOLD,
+                },
+              }))
+            }
+          />{' '}
+          × original size
+        </label>
+      </div>
+
       <div
         class={`drop-zone ${isProcessing() ? 'drop-zone-active' : ''}`}
         onDragOver={handleDragOver}
@@ -180,19 +607,85 @@ function App() {
         {isProcessing() ? 'Processing...' : 'Drag and drop a directory here to benchmark'}
       </div>
 
+      <div class="folder-pickers">
+        <Show when={canPickDirectory()}>
+          <button type="button" disabled={isProcessing()} onClick={handlePickDirectory}>
+            Pick a folder
+          </button>{' '}
+        </Show>
+        <label>
+          Or select a folder:{' '}
+          <input
+            type="file"
+            ref={(input) => {
+              input.webkitdirectory = true
+            }}
+            disabled={isProcessing()}
+            onChange={handleFolderInput}
+          />
+        </label>
+      </div>
+
+      <Show when={isProcessing()}>
+        <RunProgress
+          active={activeBenchmark()}
+          cancelling={cancelling()}
+          onCancel={() => {
+            setCancelling(true)
+            runController?.abort()
+          }}
+        />
+      </Show>
+
+      <div class="dataset-generator">
+        <span>Or generate a synthetic dataset: </span>
+        <select
+          value={presetId()}
+          disabled={isProcessing()}
+          onChange={(e) => setPresetId(e.currentTarget.value)}
+        >
+          <For each={datasetPresets}>
+            {(preset) => <option value={preset.id}>{preset.title}</option>}
+          </For>
+        </select>{' '}
+        <button type="button" disabled={isProcessing()} onClick={handleGenerate}>
+          Run
+        </button>
+      </div>
+
       <div class="benchmark-container">
         <h2>Benchmark Results</h2>
+        <Show when={dataset()}>
+          <p class="dataset-label">{dataset()!.label}</p>
+        </Show>
 
-        <div class="benchmark-results">
-          <For each={benchmarks}>
-            {(benchmark) => (
-              <Show when={results()[benchmark.id]}>
-                <BenchmarkCard title={benchmark.title} result={results()[benchmark.id]!} />
-              </Show>
-            )}
-          </For>
-        </div>
+        <Show
+          when={activeSweep()}
+          fallback={
+            <div class="benchmark-results">
+              <For each={activeBenchmarks()}>
+                {(benchmark) => (
+                  <Show when={results()[benchmark.id]}>
+                    <BenchmarkCard title={benchmark.title} result={results()[benchmark.id]!} />
+                  </Show>
+                )}
+              </For>
+            </div>
+          }
+        >
+          {(sweep) => <SweepMatrix config={sweep()} results={results()} />}
+        </Show>
+
+        <ReportPanel report={report()} disabled={isProcessing()} />
       </div>
+
+      <TabContention
+        spec={(datasetPresets.find((preset) => preset.id === presetId()) ?? datasetPresets[0]).spec}
+        options={runConfig().storage}
+        disabled={isProcessing()}
+      />
+
+      <HistoryPanel refreshKey={historyVersion()} />
     </div>
   )
 }
@@ -0,0 +1,107 @@
+import { For, Show } from 'solid-js'
+import type { BatchSample } from './benchmarks.ts'
+
+interface BatchChartsProps {
+  batches: Array<BatchSample>
+}
+
+const WIDTH = 280
+const HEIGHT = 90
+const PADDING = 4
+const HISTOGRAM_BINS = 20
+
+function mbPerSec(sample: BatchSample): number {
+  return sample.duration > 0 ? sample.bytes / (1024 * 1024) / (sample.duration / 1000) : 0
+}
+
+// Math.max/min over a spread take one argument per batch, which overflows the stack on long runs
+function maxOf(values: Array<number>, floor = -Infinity): number {
+  return values.reduce((max, value) => (value > max ? value : max), floor)
+}
+
+function minOf(values: Array<number>): number {
+  return values.reduce((min, value) => (value < min ? value : min), Infinity)
+}
+
+// Batch durations bucketed into equal-width bins between the fastest and slowest batch
+function histogram(durations: Array<number>): { bins: Array<number>; min: number; max: number } {
+  const min = minOf(durations)
+  const max = maxOf(durations)
+  const width = (max - min) / HISTOGRAM_BINS || 1
+  const bins = new Array<number>(HISTOGRAM_BINS).fill(0)
+  for (const duration of durations) {
+    bins[Math.min(Math.floor((duration - min) / width), HISTOGRAM_BINS - 1)]++
+  }
+  return { bins, min, max }
+}
+
+// Throughput over time and a batch latency histogram, as plain inline SVG
+export function BatchCharts(props: BatchChartsProps) {
+  const throughputPoints = () => {
+    const samples = props.batches
+    const end = maxOf(
+      samples.map((sample) => sample.start + sample.duration),
+      1,
+    )
+    const peak = maxOf(samples.map(mbPerSec), 1e-9)
+    return samples
+      .map((sample) => {
+        const x = PADDING + ((sample.start + sample.duration) / end) * (WIDTH - 2 * PADDING)
+        const y = HEIGHT - PADDING - (mbPerSec(sample) / peak) * (HEIGHT - 2 * PADDING)
+        return `${x.toFixed(1)},${y.toFixed(1)}`
+      })
+      .join(' ')
+  }
+
+  const latency = () => histogram(props.batches.map((sample) => sample.duration))
+  const peakThroughput = () => maxOf(props.batches.map(mbPerSec))
+
+  return (
+    <Show when={props.batches.length > 1}>
+      <div class="batch-charts">
+        <p>
+          <strong>Throughput per batch</strong> (peak {peakThroughput().toFixed(1)} MB/s)
+        </p>
+        <svg
+          class="batch-chart"
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          width={WIDTH}
+          height={HEIGHT}
+          role="img"
+          aria-label="Throughput per batch over time"
+        >
+          <polyline points={throughputPoints()} fill="none" stroke="currentColor" />
+        </svg>
+        <p>
+          <strong>Batch latency</strong> ({latency().min.toFixed(1)}–{latency().max.toFixed(1)} ms,{' '}
+          {props.batches.length} batches)
+        </p>
+        <svg
+          class="batch-chart"
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          width={WIDTH}
+          height={HEIGHT}
+          role="img"
+          aria-label="Histogram of batch latencies"
+        >
+          <For each={latency().bins}>
+            {(count, index) => {
+              const peak = Math.max(...latency().bins)
+              const barWidth = (WIDTH - 2 * PADDING) / HISTOGRAM_BINS
+              const barHeight = (count / peak) * (HEIGHT - 2 * PADDING)
+              return (
+                <rect
+                  x={PADDING + index() * barWidth}
+                  y={HEIGHT - PADDING - barHeight}
+                  width={Math.max(barWidth - 1, 1)}
+                  height={barHeight}
+                  fill="currentColor"
+                />
+              )
+            }}
+          </For>
+        </svg>
+      </div>
+    </Show>
+  )
+}
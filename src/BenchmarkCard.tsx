@@ -1,5 +1,10 @@
 // Define types for BenchmarkCard props
+import { BatchCharts } from './BatchCharts.tsx'
 import type { BenchmarkResult } from './benchmarks.ts'
+import { compressionRatio } from './codec.ts'
+import { hasIntegrityFailures } from './integrity.ts'
+import { freedBytes } from './quota.ts'
+import { isHighVariance } from './stats.ts'
 import { formatBytes } from './utils.ts'
 
 interface BenchmarkCardProps {
@@ -14,6 +19,51 @@ export const BenchmarkCard = (props: BenchmarkCardProps) => {
   return (
     <div class="benchmark-card">
       <h3>{title}</h3>
+      {result.aborted && (
+        <p class="aborted">
+          <strong>Aborted:</strong> cancelled part-way, figures are partial
+        </p>
+      )}
+      {result.options?.encoding && result.options.encoding !== 'file' && (
+        <p>
+          <strong>Encoding:</strong> {result.options.encoding}
+        </p>
+      )}
+      {result.options?.chunkSize && (
+        <p>
+          <strong>Chunks:</strong> {formatBytes(result.options.chunkSize)}
+        </p>
+      )}
+      {result.compression && (
+        <p>
+          <strong>Compression:</strong> {result.options?.compression} per{' '}
+          {result.options?.compressionScope ?? 'file'}, ratio{' '}
+          {compressionRatio(result.compression)?.toFixed(3) ?? 'n/a'} (
+          {result.compression.compressedCount.toLocaleString()} compressed,{' '}
+          {result.compression.rawCount.toLocaleString()} kept raw)
+        </p>
+      )}
+      {result.compression && (
+        <p>
+          <strong>Codec Time:</strong> {result.compression.compressDuration.toFixed(2)} ms
+          compressing, {result.compression.decompressDuration.toFixed(2)} ms decompressing
+        </p>
+      )}
+      {result.options?.materialize && (
+        <p>
+          <strong>Content:</strong> materialized
+        </p>
+      )}
+      {result.lanes !== undefined && (
+        <p>
+          <strong>Parallel Lanes:</strong> {result.lanes}
+        </p>
+      )}
+      {result.thread && (
+        <p>
+          <strong>Thread:</strong> {result.thread === 'worker' ? 'Web Worker' : 'Main thread'}
+        </p>
+      )}
       <p>
         <strong>Total Files:</strong> {result.fileCount.toLocaleString()}
       </p>
@@ -27,11 +77,101 @@ export const BenchmarkCard = (props: BenchmarkCardProps) => {
       </p>
       <p>
         <strong>Time Taken:</strong> {result.duration.toFixed(2)} ms
+        {result.stats && result.stats.iterations > 1 ? ' (median)' : ''}
       </p>
+      {result.bytesOnDisk !== undefined && result.bytesOnDisk > 0 && (
+        <p>
+          <strong>On Disk:</strong> +{formatBytes(result.bytesOnDisk)}
+          {result.overheadRatio !== undefined
+            ? ` (${result.overheadRatio.toFixed(2)}× logical size)`
+            : ''}
+        </p>
+      )}
+      {result.reclaimedBytes !== undefined && (
+        <p>
+          <strong>Reclaimed:</strong> {formatBytes(result.reclaimedBytes)}
+        </p>
+      )}
+      {result.storage?.before && result.storage.after && (
+        <p>
+          <strong>Storage Usage:</strong> {formatBytes(result.storage.before.usage)} →{' '}
+          {formatBytes(result.storage.after.usage)}
+          {(freedBytes(result.storage) ?? 0) > 0
+            ? ` (${formatBytes(freedBytes(result.storage)!)} freed)`
+            : ''}{' '}
+          of {formatBytes(result.storage.after.quota)} quota
+        </p>
+      )}
+      {result.storage?.after?.details && (
+        <p class="usage-details">
+          {Object.entries(result.storage.after.details)
+            .filter(([, bytes]) => bytes > 0)
+            .map(([type, bytes]) => `${type}: ${formatBytes(bytes)}`)
+            .join(', ')}
+        </p>
+      )}
+      {result.stats && result.stats.iterations > 1 && (
+        <>
+          <p>
+            <strong>Iterations:</strong> {result.stats.iterations} measured,{' '}
+            {result.stats.warmupIterations} warm-up
+          </p>
+          <p>
+            <strong>Min / Mean / p95:</strong> {result.stats.min.toFixed(2)} /{' '}
+            {result.stats.mean.toFixed(2)} / {result.stats.p95.toFixed(2)} ms
+          </p>
+          <p class={isHighVariance(result.stats) ? 'high-variance' : undefined}>
+            <strong>Std Dev:</strong> {result.stats.stddev.toFixed(2)} ms
+            {isHighVariance(result.stats) ? ' ⚠️ high variance' : ''}
+          </p>
+        </>
+      )}
+      {result.stats && (
+        <p>
+          <strong>Throughput:</strong> {result.stats.mbPerSec.toFixed(2)} MB/s,{' '}
+          {Math.round(result.stats.filesPerSec).toLocaleString()} files/s
+        </p>
+      )}
+      {result.latency && result.latency.count > 0 && (
+        <p>
+          <strong>Latency p50 / p95 / p99:</strong> {result.latency.p50.toFixed(3)} /{' '}
+          {result.latency.p95.toFixed(3)} / {result.latency.p99.toFixed(3)} ms over{' '}
+          {result.latency.count.toLocaleString()} ops (max {result.latency.max.toFixed(3)} ms)
+        </p>
+      )}
+      {result.batches && <BatchCharts batches={result.batches} />}
       <p>
         <strong>Avg Time Per File:</strong>{' '}
         {((result.duration || 0) / Math.max(result.fileCount || 1, 1)).toFixed(2)} ms
       </p>
+      {result.writtenCount !== undefined && (
+        <p>
+          <strong>Records Written:</strong> {result.writtenCount.toLocaleString()}
+        </p>
+      )}
+      {result.recoveredCount !== undefined && (
+        <p>
+          <strong>Records Recovered:</strong> {result.recoveredCount.toLocaleString()}
+          {result.missingCount ? ` (${result.missingCount.toLocaleString()} missing)` : ''}
+        </p>
+      )}
+      {result.verification && result.recoveredCount === undefined && (
+        <p>
+          <strong>SHA-256 Digests:</strong> {result.verification.hashDuration.toFixed(2)} ms
+          hashing, not timed
+        </p>
+      )}
+      {result.verification && result.recoveredCount !== undefined && (
+        <p class={hasIntegrityFailures(result.verification) ? 'integrity-failure' : undefined}>
+          <strong>Integrity:</strong> {result.verification.verified.toLocaleString()} verified,{' '}
+          {result.verification.mismatched.toLocaleString()} mismatched,{' '}
+          {result.verification.missing.toLocaleString()} missing
+          {result.verification.unhashed
+            ? `, ${result.verification.unhashed.toLocaleString()} without digest`
+            : ''}
+          {` (hashing ${result.verification.hashDuration.toFixed(2)} ms, not timed)`}
+        </p>
+      )}
       <p>
         <strong>Errors:</strong> {result.errorCount}
       </p>
@@ -0,0 +1,112 @@
+import { For, Show, createMemo, createResource, createSignal } from 'solid-js'
+import { type HistoryRun, deleteRun, listRuns } from './history.ts'
+import { percentChange } from './report.ts'
+import { formatPercent } from './utils.ts'
+
+interface HistoryPanelProps {
+  // Changes whenever a new run has been saved
+  refreshKey: number
+}
+
+function runLabel(run: HistoryRun): string {
+  return `#${run.id} ${new Date(run.createdAt).toLocaleString()}`
+}
+
+// Saved runs, with a side-by-side comparison of the selected ones
+export function HistoryPanel(props: HistoryPanelProps) {
+  const [runs, { refetch }] = createResource(() => props.refreshKey, listRuns)
+  const [selectedIds, setSelectedIds] = createSignal<Array<number>>([])
+
+  // Selected runs in selection order, the first one is the baseline
+  const selectedRuns = createMemo(() =>
+    selectedIds()
+      .map((id) => runs()?.find((run) => run.id === id))
+      .filter((run): run is HistoryRun => !!run),
+  )
+
+  // Union of benchmarks across the selected runs, in first-seen order
+  const benchmarkRows = createMemo(() => {
+    const titles = new Map<string, string>()
+    for (const run of selectedRuns()) {
+      for (const entry of run.results) {
+        if (!titles.has(entry.id)) titles.set(entry.id, entry.title)
+      }
+    }
+    return [...titles].map(([id, title]) => ({ id, title }))
+  })
+
+  const toggle = (id: number, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, id] : prev.filter((other) => other !== id)))
+  }
+
+  const remove = async (id: number) => {
+    await deleteRun(id)
+    setSelectedIds((prev) => prev.filter((other) => other !== id))
+    await refetch()
+  }
+
+  const durationOf = (run: HistoryRun, benchmarkId: string) =>
+    run.results.find((entry) => entry.id === benchmarkId)?.result.duration
+
+  return (
+    <div class="history-panel">
+      <h2>History</h2>
+      <Show when={runs()?.length} fallback={<p>No saved runs yet.</p>}>
+        <ul class="history-list">
+          <For each={runs()}>
+            {(run) => (
+              <li>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={selectedIds().includes(run.id)}
+                    onChange={(e) => toggle(run.id, e.currentTarget.checked)}
+                  />{' '}
+                  {runLabel(run)} – {run.dataset.label} ({run.config.thread}, {run.results.length}{' '}
+                  benchmarks)
+                </label>{' '}
+                <button type="button" onClick={() => remove(run.id)}>
+                  Delete
+                </button>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+
+      <Show when={selectedRuns().length >= 2}>
+        <table class="history-comparison">
+          <thead>
+            <tr>
+              <th>Benchmark</th>
+              <For each={selectedRuns()}>{(run) => <th>{runLabel(run)}</th>}</For>
+            </tr>
+          </thead>
+          <tbody>
+            <For each={benchmarkRows()}>
+              {(row) => (
+                <tr>
+                  <td>{row.title}</td>
+                  <For each={selectedRuns()}>
+                    {(run, index) => {
+                      const duration = durationOf(run, row.id)
+                      const baseline = durationOf(selectedRuns()[0], row.id)
+                      return (
+                        <td>
+                          {duration === undefined ? '–' : `${duration.toFixed(2)} ms`}
+                          {index() > 0 && duration !== undefined && baseline !== undefined
+                            ? ` (${formatPercent(percentChange(duration, baseline))})`
+                            : ''}
+                        </td>
+                      )
+                    }}
+                  </For>
+                </tr>
+              )}
+            </For>
+          </tbody>
+        </table>
+      </Show>
+    </div>
+  )
+}
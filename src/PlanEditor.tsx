@@ -0,0 +1,191 @@
+import { For, Show, createMemo, createResource, createSignal } from 'solid-js'
+import { backends } from './backends.ts'
+import { deletePlan, listPlans, savePlan } from './history.ts'
+import {
+  DEFAULT_PLAN_NAME,
+  type PlanStep,
+  type RunPlan,
+  defaultPlan,
+  findBenchmark,
+  validatePlan,
+} from './plan.ts'
+
+interface PlanEditorProps {
+  plan: RunPlan
+  onChange: (plan: RunPlan) => void
+  disabled: boolean
+}
+
+type StepGroup = { title: string; steps: Array<PlanStep> }
+
+// Consecutive steps on the same backend, so the plan's order is kept
+function groupSteps(steps: Array<PlanStep>): Array<StepGroup> {
+  const groups: Array<StepGroup & { backendId?: string }> = []
+  for (const step of steps) {
+    const backendId = findBenchmark(step.benchmarkId)?.backendId
+    const last = groups[groups.length - 1]
+    if (last && last.backendId === backendId) {
+      last.steps.push(step)
+    } else {
+      const backend = backends.find((backend) => backend.id === backendId)
+      groups.push({ backendId, title: backend?.title ?? 'Other', steps: [step] })
+    }
+  }
+  return groups
+}
+
+// Tick which steps of the plan run, and save or load named plans
+export function PlanEditor(props: PlanEditorProps) {
+  const [savedPlans, { refetch }] = createResource(listPlans)
+  const [name, setName] = createSignal('')
+  const [error, setError] = createSignal<string | null>(null)
+
+  const groups = createMemo(() => groupSteps(props.plan.steps))
+  const enabledCount = () => props.plan.steps.filter((step) => step.enabled).length
+  // Why the plan as edited can't run, null when it can
+  const invalid = createMemo(() => {
+    try {
+      validatePlan(props.plan)
+      return null
+    } catch (error) {
+      return String(error)
+    }
+  })
+
+  const setEnabled = (ids: Array<string>, enabled: boolean) => {
+    props.onChange({
+      ...props.plan,
+      steps: props.plan.steps.map((step) => (ids.includes(step.id) ? { ...step, enabled } : step)),
+    })
+  }
+
+  // A dependency that won't run is replaced by an untimed write before the step
+  const dependencySkipped = (step: PlanStep) => {
+    const dependency = props.plan.steps.find((other) => other.id === step.dependsOn)
+    return !!dependency && !dependency.enabled
+  }
+
+  const load = (planName: string) => {
+    const plan =
+      planName === DEFAULT_PLAN_NAME
+        ? defaultPlan()
+        : savedPlans()?.find((saved) => saved.name === planName)
+    if (!plan) return
+    try {
+      // Saved plans may name benchmarks that no longer exist
+      validatePlan(plan)
+      setError(null)
+      props.onChange(plan)
+    } catch (error) {
+      setError(String(error))
+    }
+  }
+
+  const save = async () => {
+    const planName = name().trim()
+    if (!planName || planName === DEFAULT_PLAN_NAME) return
+    try {
+      await savePlan({ ...props.plan, name: planName })
+      props.onChange({ ...props.plan, name: planName })
+      setName('')
+      setError(null)
+      await refetch()
+    } catch (error) {
+      setError(`Error saving plan: ${error}`)
+    }
+  }
+
+  const remove = async () => {
+    try {
+      await deletePlan(props.plan.name)
+      props.onChange(defaultPlan())
+      await refetch()
+    } catch (error) {
+      setError(`Error deleting plan: ${error}`)
+    }
+  }
+
+  return (
+    <details class="plan-editor">
+      <summary>
+        Run plan: {props.plan.name} ({enabledCount()} of {props.plan.steps.length} steps)
+      </summary>
+
+      <div class="run-options">
+        <label>
+          Plan{' '}
+          <select
+            value={props.plan.name}
+            disabled={props.disabled}
+            onChange={(e) => load(e.currentTarget.value)}
+          >
+            <option value={DEFAULT_PLAN_NAME}>{DEFAULT_PLAN_NAME}</option>
+            <For each={savedPlans()}>
+              {(plan) => <option value={plan.name}>{plan.name}</option>}
+            </For>
+          </select>
+        </label>{' '}
+        <button
+          type="button"
+          disabled={props.disabled || props.plan.name === DEFAULT_PLAN_NAME}
+          onClick={remove}
+        >
+          Delete plan
+        </button>{' '}
+        <input
+          type="text"
+          placeholder="Plan name"
+          value={name()}
+          disabled={props.disabled}
+          onInput={(e) => setName(e.currentTarget.value)}
+        />{' '}
+        <button type="button" disabled={props.disabled || !name().trim()} onClick={save}>
+          Save as
+        </button>
+      </div>
+      <Show when={error()}>
+        <p class="integrity-failure">{error()}</p>
+      </Show>
+      <Show when={invalid()}>
+        <p class="integrity-failure">{invalid()}</p>
+      </Show>
+
+      <For each={groups()}>
+        {(group) => (
+          <fieldset class="plan-group" disabled={props.disabled}>
+            <legend>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={group.steps.every((step) => step.enabled)}
+                  onChange={(e) =>
+                    setEnabled(
+                      group.steps.map((step) => step.id),
+                      e.currentTarget.checked,
+                    )
+                  }
+                />{' '}
+                {group.title}
+              </label>
+            </legend>
+            <For each={group.steps}>
+              {(step) => (
+                <label class="plan-step">
+                  <input
+                    type="checkbox"
+                    checked={step.enabled}
+                    onChange={(e) => setEnabled([step.id], e.currentTarget.checked)}
+                  />{' '}
+                  {step.title ?? findBenchmark(step.benchmarkId)?.title ?? step.benchmarkId}
+                  {step.enabled && dependencySkipped(step)
+                    ? ' (writes its data untimed if missing)'
+                    : ''}
+                </label>
+              )}
+            </For>
+          </fieldset>
+        )}
+      </For>
+    </details>
+  )
+}
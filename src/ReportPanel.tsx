@@ -0,0 +1,138 @@
+import { For, Show, createSignal } from 'solid-js'
+import {
+  type BenchmarkReport,
+  parseReport,
+  percentChange,
+  reportFilename,
+  reportToCSV,
+  reportToJSON,
+} from './report.ts'
+import { downloadFile, formatPercent } from './utils.ts'
+
+interface ReportPanelProps {
+  report: BenchmarkReport | null
+  disabled: boolean
+}
+
+// Export the current run, and import an earlier one to compare against it
+export function ReportPanel(props: ReportPanelProps) {
+  const [imported, setImported] = createSignal<BenchmarkReport | null>(null)
+  const [importError, setImportError] = createSignal<string | null>(null)
+
+  const exportJSON = () => {
+    if (!props.report) return
+    downloadFile(
+      reportFilename(props.report, 'json'),
+      reportToJSON(props.report),
+      'application/json',
+    )
+  }
+
+  const exportCSV = () => {
+    if (!props.report) return
+    downloadFile(reportFilename(props.report, 'csv'), reportToCSV(props.report), 'text/csv')
+  }
+
+  const handleImport = async (e: Event & { currentTarget: HTMLInputElement }) => {
+    const file = e.currentTarget.files?.[0]
+    e.currentTarget.value = ''
+    if (!file) return
+
+    try {
+      setImported(parseReport(await file.text()))
+      setImportError(null)
+    } catch (error) {
+      console.error('Failed to import report:', error)
+      setImportError(String(error))
+    }
+  }
+
+  // Pair current and imported results by benchmark id, keeping benchmarks only one side ran
+  const rows = () => {
+    const current = props.report?.results ?? []
+    const baseline = imported()?.results ?? []
+    const baselineById = new Map(baseline.map((entry) => [entry.id, entry.result]))
+    const currentIds = new Set(current.map((entry) => entry.id))
+    return [
+      ...current.map((entry) => ({
+        title: entry.title,
+        current: entry.result,
+        baseline: baselineById.get(entry.id),
+      })),
+      ...baseline
+        .filter((entry) => !currentIds.has(entry.id))
+        .map((entry) => ({ title: entry.title, current: undefined, baseline: entry.result })),
+    ]
+  }
+
+  return (
+    <div class="report-panel">
+      <div class="report-actions">
+        <button type="button" disabled={props.disabled || !props.report} onClick={exportJSON}>
+          Export JSON
+        </button>{' '}
+        <button type="button" disabled={props.disabled || !props.report} onClick={exportCSV}>
+          Export CSV
+        </button>{' '}
+        <label class="report-import">
+          Import JSON <input type="file" accept="application/json,.json" onChange={handleImport} />
+        </label>
+      </div>
+
+      <Show when={importError()}>
+        <p class="report-error">{importError()}</p>
+      </Show>
+
+      <Show when={imported()}>
+        {(baseline) => (
+          <div class="report-comparison">
+            <h3>
+              Compared with {baseline().dataset.label} (
+              {new Date(baseline().createdAt).toLocaleString()})
+            </h3>
+            <p class="report-environment">{baseline().environment.userAgent}</p>
+            <table>
+              <thead>
+                <tr>
+                  <th>Benchmark</th>
+                  <th>Current</th>
+                  <th>Imported</th>
+                  <th>Δ time</th>
+                  <th>Δ MB/s</th>
+                </tr>
+              </thead>
+              <tbody>
+                <For each={rows()}>
+                  {(row) => (
+                    <tr>
+                      <td>{row.title}</td>
+                      <td>{row.current ? `${row.current.duration.toFixed(2)} ms` : '–'}</td>
+                      <td>{row.baseline ? `${row.baseline.duration.toFixed(2)} ms` : '–'}</td>
+                      <td>
+                        {row.current && row.baseline
+                          ? formatPercent(
+                              percentChange(row.current.duration, row.baseline.duration),
+                            )
+                          : '–'}
+                      </td>
+                      <td>
+                        {row.current?.stats && row.baseline?.stats
+                          ? formatPercent(
+                              percentChange(
+                                row.current.stats.mbPerSec,
+                                row.baseline.stats.mbPerSec,
+                              ),
+                            )
+                          : '–'}
+                      </td>
+                    </tr>
+                  )}
+                </For>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Show>
+    </div>
+  )
+}
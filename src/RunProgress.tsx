@@ -0,0 +1,62 @@
+import { Show } from 'solid-js'
+import type { BenchmarkProgress } from './benchmarks.ts'
+import { formatBytes } from './utils.ts'
+
+// The benchmark currently running, as tracked from 'start' and 'progress' events
+export type ActiveBenchmark = {
+  title: string
+  startedAt: number
+  progress: BenchmarkProgress | null
+}
+
+interface RunProgressProps {
+  active: ActiveBenchmark | null
+  cancelling: boolean
+  onCancel: () => void
+}
+
+// Seconds left if the rest of the phase goes as fast as the part so far, null when unknowable
+function estimateRemaining(active: ActiveBenchmark): number | null {
+  const { progress } = active
+  if (!progress?.total || progress.files === 0) return null
+  const fraction = Math.min(progress.files / progress.total, 1)
+  const elapsed = performance.now() - active.startedAt
+  return (elapsed * (1 - fraction)) / fraction / 1000
+}
+
+// Progress bar and ETA for the running benchmark, with a button to cancel the run
+export function RunProgress(props: RunProgressProps) {
+  const fraction = () => {
+    const progress = props.active?.progress
+    return progress?.total ? Math.min(progress.files / progress.total, 1) : null
+  }
+
+  return (
+    <div class="run-progress">
+      <Show when={props.active} fallback={<p>Preparing…</p>}>
+        {(active) => (
+          <>
+            <p>
+              <strong>{active().title}</strong>
+              {active().progress ? ` — ${active().progress!.phase}` : ''}
+            </p>
+            <progress max="1" value={fraction() ?? undefined} />
+            <p class="run-progress-details">
+              {(active().progress?.files ?? 0).toLocaleString()}
+              {active().progress?.total
+                ? ` / ${active().progress!.total!.toLocaleString()}`
+                : ''}{' '}
+              files, {formatBytes(active().progress?.bytes ?? 0)}
+              {estimateRemaining(active()) !== null
+                ? `, about ${Math.ceil(estimateRemaining(active())!)} s left`
+                : ''}
+            </p>
+          </>
+        )}
+      </Show>
+      <button type="button" disabled={props.cancelling} onClick={() => props.onCancel()}>
+        {props.cancelling ? 'Cancelling…' : 'Cancel'}
+      </button>
+    </div>
+  )
+}
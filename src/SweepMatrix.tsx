@@ -0,0 +1,112 @@
+import { For } from 'solid-js'
+import { backends } from './backends.ts'
+import type { BenchmarkResult } from './benchmarks.ts'
+import { type SweepCell, type SweepConfig, sweepCells } from './sweep.ts'
+
+interface SweepMatrixProps {
+  config: SweepConfig
+  results: Record<string, BenchmarkResult | null>
+}
+
+type MatrixRow = { label: string; transactionMode: string; batchSize?: number }
+
+// Write and read times across the sweep grid, one table per backend with the fastest cells marked
+export function SweepMatrix(props: SweepMatrixProps) {
+  const rows = (): Array<MatrixRow> => [
+    ...(props.config.transactionModes.includes('per-batch')
+      ? props.config.batchSizes.map((batchSize) => ({
+          label: `Batch ${batchSize}`,
+          transactionMode: 'per-batch',
+          batchSize,
+        }))
+      : []),
+    ...(props.config.transactionModes.includes('single')
+      ? [{ label: 'Single transaction', transactionMode: 'single' }]
+      : []),
+  ]
+
+  const findCell = (
+    cells: Array<SweepCell>,
+    row: MatrixRow,
+    durability: IDBTransactionDurability,
+    operation: SweepCell['operation'],
+  ) =>
+    cells.find(
+      (cell) =>
+        cell.operation === operation &&
+        cell.options.durability === durability &&
+        cell.options.transactionMode === row.transactionMode &&
+        cell.options.batchSize === row.batchSize,
+    )
+
+  // Id of the fastest finished cell for an operation
+  const fastest = (cells: Array<SweepCell>, operation: SweepCell['operation']) => {
+    let best: { id: string; duration: number } | null = null
+    for (const cell of cells) {
+      const result = props.results[cell.id]
+      if (cell.operation !== operation || !result) continue
+      if (!best || result.duration < best.duration) {
+        best = { id: cell.id, duration: result.duration }
+      }
+    }
+    return best?.id
+  }
+
+  const formatCell = (cell: SweepCell | undefined, fastestId: string | undefined) => {
+    const result = cell && props.results[cell.id]
+    if (!result) return <span>–</span>
+    return (
+      <span class={cell.id === fastestId ? 'sweep-fastest' : undefined}>
+        {result.duration.toFixed(0)} ms
+      </span>
+    )
+  }
+
+  return (
+    <div class="sweep-matrix">
+      <For each={backends.filter((backend) => backend.transactional)}>
+        {(backend) => {
+          const cells = () =>
+            sweepCells(props.config).filter((cell) => cell.backendId === backend.id)
+          return (
+            <table>
+              <caption>{backend.title}: write / read</caption>
+              <thead>
+                <tr>
+                  <th />
+                  <For each={props.config.durabilities}>
+                    {(durability) => <th>{durability}</th>}
+                  </For>
+                </tr>
+              </thead>
+              <tbody>
+                <For each={rows()}>
+                  {(row) => (
+                    <tr>
+                      <th>{row.label}</th>
+                      <For each={props.config.durabilities}>
+                        {(durability) => (
+                          <td>
+                            {formatCell(
+                              findCell(cells(), row, durability, 'write'),
+                              fastest(cells(), 'write'),
+                            )}{' '}
+                            /{' '}
+                            {formatCell(
+                              findCell(cells(), row, durability, 'read'),
+                              fastest(cells(), 'read'),
+                            )}
+                          </td>
+                        )}
+                      </For>
+                    </tr>
+                  )}
+                </For>
+              </tbody>
+            </table>
+          )
+        }}
+      </For>
+    </div>
+  )
+}
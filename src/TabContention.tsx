@@ -0,0 +1,145 @@
+import { For, Show, createSignal, onCleanup } from 'solid-js'
+import type { StorageOptions } from './backends.ts'
+import type { BenchmarkResult } from './benchmarks.ts'
+import type { DatasetSpec } from './generator.ts'
+import { type TabReport, followTabRuns, leadTabRun, tabId } from './tabCoordinator.ts'
+import { type TabWorkload, tabWorkloads } from './tabs.ts'
+import { formatBytes } from './utils.ts'
+
+interface TabContentionProps {
+  // Dataset every tab generates for itself
+  spec: DatasetSpec
+  options: StorageOptions
+  disabled: boolean
+}
+
+function mbPerSec(result: BenchmarkResult): number {
+  return result.duration > 0 ? result.totalSize / (1024 * 1024) / (result.duration / 1000) : 0
+}
+
+// Lead a run across open tabs of this app, or follow runs another tab leads
+export function TabContention(props: TabContentionProps) {
+  const [workload, setWorkload] = createSignal<TabWorkload>('write')
+  const [running, setRunning] = createSignal(false)
+  const [status, setStatus] = createSignal<string | null>(null)
+  const [reports, setReports] = createSignal<Array<TabReport>>([])
+  let stopFollowing: (() => void) | null = null
+
+  const setFollowing = (following: boolean) => {
+    stopFollowing?.()
+    stopFollowing = following ? followTabRuns(setStatus) : null
+    setStatus(following ? 'Waiting for another tab to lead a run' : null)
+  }
+  onCleanup(() => stopFollowing?.())
+
+  const lead = async () => {
+    setRunning(true)
+    setReports([])
+    try {
+      setReports(await leadTabRun(workload(), props.spec, props.options, setStatus))
+      setStatus(null)
+    } catch (error) {
+      setStatus(`Failed: ${error}`)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  // All tabs' bytes over the slowest tab's time
+  const combinedMbPerSec = () => {
+    const results = reports().flatMap((report) => (report.result ? [report.result] : []))
+    const duration = Math.max(...results.map((result) => result.duration), 0)
+    const size = results.reduce((sum, result) => sum + result.totalSize, 0)
+    return duration > 0 ? size / (1024 * 1024) / (duration / 1000) : 0
+  }
+
+  return (
+    <div class="tab-contention">
+      <h2>Multi-tab contention</h2>
+      <p>
+        Open this page in more tabs and have them follow, then lead a run from one of them. Every
+        tab generates the selected synthetic dataset and works on one shared database at the same
+        time. This tab is <code>{tabId}</code>.
+      </p>
+      <div class="run-options">
+        <label>
+          <input
+            type="checkbox"
+            disabled={running()}
+            onChange={(e) => setFollowing(e.currentTarget.checked)}
+          />{' '}
+          Follow runs led by other tabs
+        </label>
+      </div>
+      <div class="run-options">
+        <select
+          value={workload()}
+          disabled={props.disabled || running()}
+          onChange={(e) => setWorkload(e.currentTarget.value as TabWorkload)}
+        >
+          <For each={tabWorkloads}>{(item) => <option value={item.id}>{item.title}</option>}</For>
+        </select>{' '}
+        <button type="button" disabled={props.disabled || running()} onClick={lead}>
+          Lead multi-tab run
+        </button>
+      </div>
+      <Show when={status()}>
+        <p>{status()}</p>
+      </Show>
+
+      <Show when={reports().length > 0}>
+        <p>
+          <strong>Combined:</strong> {combinedMbPerSec().toFixed(2)} MB/s across {reports().length}{' '}
+          tabs
+        </p>
+        <table class="tab-results">
+          <thead>
+            <tr>
+              <th>Tab</th>
+              <th>Role</th>
+              <th>Files</th>
+              <th>Size</th>
+              <th>Time</th>
+              <th>MB/s</th>
+              <th>Blocked</th>
+              <th>blocked / versionchange</th>
+              <th>Errors</th>
+            </tr>
+          </thead>
+          <tbody>
+            <For each={reports()}>
+              {(report) => (
+                <tr>
+                  <td>
+                    {report.tabId}
+                    {report.leader ? ' (leader)' : ''}
+                  </td>
+                  <td>{report.role}</td>
+                  <Show
+                    when={report.result}
+                    fallback={<td colSpan={7}>{report.error ?? 'No result'}</td>}
+                  >
+                    {(result) => (
+                      <>
+                        <td>{result().fileCount.toLocaleString()}</td>
+                        <td>{formatBytes(result().totalSize)}</td>
+                        <td>{result().duration.toFixed(2)} ms</td>
+                        <td>{mbPerSec(result()).toFixed(2)}</td>
+                        <td>{(result().contention?.blockedDuration ?? 0).toFixed(2)} ms</td>
+                        <td>
+                          {result().contention?.blockedEvents ?? 0} /{' '}
+                          {result().contention?.versionChangeEvents ?? 0}
+                        </td>
+                        <td>{result().errorCount}</td>
+                      </>
+                    )}
+                  </Show>
+                </tr>
+              )}
+            </For>
+          </tbody>
+        </table>
+      </Show>
+    </div>
+  )
+}
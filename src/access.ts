@@ -0,0 +1,37 @@
+import type { StorageOptions } from './backends.ts'
+import { createRandom } from './utils.ts'
+
+// Defaults for the access-pattern read benchmarks, overridden through StorageOptions
+export const DEFAULT_SAMPLE_SIZE = 200
+export const DEFAULT_SEED = 1
+export const DEFAULT_PAGE_SIZE = 100
+
+export function accessSettings(options: StorageOptions): {
+  sampleSize: number
+  seed: number
+  pageSize: number
+} {
+  return {
+    sampleSize: Math.max(options.sampleSize ?? DEFAULT_SAMPLE_SIZE, 1),
+    seed: options.seed ?? DEFAULT_SEED,
+    pageSize: Math.max(options.pageSize ?? DEFAULT_PAGE_SIZE, 1),
+  }
+}
+
+// Up to `count` distinct items picked with a seeded partial Fisher-Yates shuffle,
+// so the same seed reads the same keys on every run and browser
+export function sampleItems<T>(items: Array<T>, count: number, seed: number): Array<T> {
+  const random = createRandom(seed)
+  const pool = [...items]
+  const size = Math.min(count, pool.length)
+  for (let i = 0; i < size; i++) {
+    const j = i + Math.floor(random() * (pool.length - i))
+    ;[pool[i], pool[j]] = [pool[j], pool[i]]
+  }
+  return pool.slice(0, size)
+}
+
+// Every string key starting with the prefix, \uffff sorts after any character used in paths
+export function prefixRange(prefix: string): IDBKeyRange {
+  return IDBKeyRange.bound(prefix, `${prefix}\uffff`)
+}
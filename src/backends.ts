@@ -0,0 +1,154 @@
+import { cacheStorageBackend } from './cacheStorage.ts'
+import type { Codec, CompressionScope } from './codec.ts'
+import type { ReadValue, ValueEncoding } from './encoding.ts'
+import { idbBackend } from './idb.ts'
+import { indexedDBBackend } from './indexeddb.ts'
+import { opfsBackend, opfsSyncBackend } from './opfs.ts'
+import { packedBackend } from './packed.ts'
+
+// A file to store, keyed by its full path so same-named files in different folders don't collide
+export type StoredFile = {
+  path: string
+  file: File
+  // Overrides the metadata derived from the file, null stores none (e.g. for internal records)
+  metadata?: FileMetadata | null
+}
+
+// Descriptive record stored next to each file, separate from the file contents
+export type FileMetadata = {
+  path: string
+  size: number
+  type: string
+  lastModified: number
+  parent: string
+  // Hex SHA-256 of the contents, taken at write time when verifying
+  sha256?: string
+}
+
+export type TransactionMode = 'per-batch' | 'single'
+
+// Tuning knobs for writes and reads, backends without transactions ignore durability,
+// transactionMode and encoding
+export type StorageOptions = {
+  batchSize?: number
+  durability?: IDBTransactionDurability
+  // One transaction per batch, or one transaction for the whole call
+  transactionMode?: TransactionMode
+  // How values are put, the raw File by default
+  encoding?: ValueEncoding
+  // Read benchmarks pull every value's bytes into memory instead of just checking its size
+  materialize?: boolean
+  // Split files into chunk records of this many bytes under a manifest record
+  chunkSize?: number
+  // Also flush a write batch once it holds this many bytes
+  batchBytes?: number
+  // Hash contents on write and check them on read
+  verify?: boolean
+  // Access-pattern reads: how many keys or directories to sample, the sampling seed,
+  // and the count limit for paged getAll calls
+  sampleSize?: number
+  seed?: number
+  pageSize?: number
+  // Parallel lanes (transactions, stores, databases or workers) for the concurrency benchmarks
+  concurrency?: number
+  // Compress records on write and decompress them on read, per file by default
+  compression?: Codec
+  compressionScope?: CompressionScope
+  // Keep compressed bytes only when they're below this fraction of the original size
+  compressionThreshold?: number
+}
+
+// Records per transaction for a call covering `count` records
+export function transactionSize(options: StorageOptions, count: number, fallback: number): number {
+  if (options.transactionMode === 'single') return Math.max(count, 1)
+  return Math.max(options.batchSize ?? fallback, 1)
+}
+
+// Encodings that read the bytes into memory have them all held at once until the transaction
+// commits, so their transactions also close at this many bytes unless options.batchBytes says
+// otherwise. A single-transaction write is left whole, that's what it measures.
+const ENCODED_TRANSACTION_BYTES = 64 * 1024 * 1024
+
+// Split files into the groups written one transaction each: transactionSize files at most,
+// and for in-memory encodings in per-batch mode a bounded number of bytes too
+export function transactionBatches(
+  files: Array<StoredFile>,
+  options: StorageOptions,
+  fallback: number,
+): Array<Array<StoredFile>> {
+  const size = transactionSize(options, files.length, fallback)
+  const maxBytes =
+    options.transactionMode !== 'single' &&
+    (options.encoding === 'arraybuffer' || options.encoding === 'record')
+      ? (options.batchBytes ?? ENCODED_TRANSACTION_BYTES)
+      : Infinity
+
+  const batches: Array<Array<StoredFile>> = []
+  let batch: Array<StoredFile> = []
+  let bytes = 0
+  for (const stored of files) {
+    if (batch.length > 0 && (batch.length >= size || bytes + stored.file.size > maxBytes)) {
+      batches.push(batch)
+      batch = []
+      bytes = 0
+    }
+    batch.push(stored)
+    bytes += stored.file.size
+  }
+  if (batch.length > 0) batches.push(batch)
+  return batches
+}
+
+// Finer-grained reads for the access-pattern benchmarks, only where IndexedDB is underneath
+export interface AccessPatterns {
+  // One record in its own transaction
+  getOne: (key: string) => Promise<ReadValue | null>
+  // Up to count records of the range in key order, in one request
+  getAll: (range: IDBKeyRange | null, count?: number) => Promise<Array<ReadValue | null>>
+  // Walk the range with a cursor, handing over each record as the cursor reaches it
+  iterate: (range: IDBKeyRange | null, onValue: (value: ReadValue | null) => void) => Promise<void>
+}
+
+// Common surface every storage implementation exposes to the benchmarks
+export interface StorageBackend {
+  id: string
+  title: string
+  batchSize: number
+  // Whether durability and transactionMode mean anything, i.e. it's IndexedDB underneath
+  transactional: boolean
+  // Open the underlying store, a no-op when it's already open
+  init: () => Promise<void>
+  // Store files and their metadata records
+  putBatch: (files: Array<StoredFile>, options?: StorageOptions) => Promise<void>
+  listKeys: () => Promise<Array<string>>
+  listMetadata: () => Promise<Array<FileMetadata>>
+  // Results line up with keys, null where a record is missing
+  getBatch: (keys: Array<string>, options?: StorageOptions) => Promise<Array<ReadValue | null>>
+  // Remove files together with their metadata
+  deleteBatch: (keys: Array<string>) => Promise<void>
+  // Remove every record but keep the store
+  clear: () => Promise<void>
+  close: () => void
+  // Remove the store entirely
+  destroy: () => Promise<void>
+  access?: AccessPatterns
+  // Rewrite storage without the dead bytes overwrites and deletes left behind, returning how
+  // many bytes that reclaimed. Only for backends that don't reuse space on their own.
+  compact?: () => Promise<number>
+}
+
+// Registry of backends, benchmarks are generated for each entry in order
+export const backends: Array<StorageBackend> = [
+  indexedDBBackend,
+  idbBackend,
+  opfsBackend,
+  opfsSyncBackend,
+  packedBackend,
+  cacheStorageBackend,
+]
+
+export function getBackend(id: string): StorageBackend {
+  const backend = backends.find((backend) => backend.id === id)
+  if (!backend) throw new Error(`Unknown storage backend: ${id}`)
+  return backend
+}
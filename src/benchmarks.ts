@@ -1,16 +1,41 @@
-import { getFileFromEntry, readDirectoryEntries } from './files.ts'
+import type { IDBPDatabase } from 'idb'
+import { accessSettings, prefixRange, sampleItems } from './access.ts'
 import {
-  BATCH_SIZE as IDB_BATCH_SIZE,
-  batchReadFromIDB,
-  batchSaveToIDB,
-  getAllKeys as getAllKeysFromIDB,
-} from './idb.ts'
+  type AccessPatterns,
+  type StorageBackend,
+  type StorageOptions,
+  type StoredFile,
+  backends,
+} from './backends.ts'
+import { chunkedBackend, readStream } from './chunked.ts'
+import { type CompressionStats, compressedBackend, emptyCompressionStats } from './codec.ts'
 import {
-  BATCH_SIZE as INDEXEDDB_BATCH_SIZE,
-  batchReadFromIndexedDB,
-  batchSaveToIndexedDB,
-  getAllKeys as getAllKeysFromIndexedDB,
-} from './indexeddb.ts'
+  type ConcurrencyLayout,
+  DEFAULT_CONCURRENCY,
+  closeLayout,
+  concurrencyLayouts,
+  deleteLayouts,
+  laneKeys,
+  laneTarget,
+  openLayout,
+  partition,
+  readLane,
+  writeLane,
+} from './concurrency.ts'
+import { runLaneWorker, startLaneWorkers } from './concurrencyClient.ts'
+import { type ReadValue, materializeValue, readValueSize } from './encoding.ts'
+import { type FileSource, type SourceItem, fileMetadata } from './files.ts'
+import { type VerificationCounts, emptyVerification, timedSha256 } from './integrity.ts'
+import { type StorageChange, estimateStorage } from './quota.ts'
+import { type BenchmarkStats, type LatencyStats, summarizeLatencies } from './stats.ts'
+import {
+  type ContentionStats,
+  type TabConnection,
+  readTabBatch,
+  tabBatchSize,
+  tabDatabase,
+  writeTabBatch,
+} from './tabs.ts'
 
 // Type for storing benchmark results
 export type BenchmarkResult = {
@@ -22,11 +47,85 @@ export type BenchmarkResult = {
   errorCount: number
   dirCount: number
   implementation?: string // Added to track which implementation was used
+  thread?: 'main' | 'worker'
+  // Distinct records written, or metadata records found when reading back
+  writtenCount?: number
+  // Records whose contents came back on read
+  recoveredCount?: number
+  // Records with metadata but no contents
+  missingCount?: number
+  // Content checks against write-time digests, only when options.verify is set
+  verification?: VerificationCounts
+  // Non-default storage options the benchmark ran with
+  options?: StorageOptions
+  // Present on aggregated results, duration is then the median iteration
+  stats?: BenchmarkStats
+  // Per-operation latencies, for the access-pattern reads
+  latency?: LatencyStats
+  // Storage estimates taken just before and after the benchmark
+  storage?: StorageChange
+  // Growth of the origin's usage during the benchmark, and that growth per logical byte
+  bytesOnDisk?: number
+  overheadRatio?: number
+  // Cancelled part-way, the counts and timing only cover what ran
+  aborted?: boolean
+  // Parallel lanes, for the concurrency benchmarks
+  lanes?: number
+  // Timeline of the write or read loop, one sample per batch
+  batches?: Array<BatchSample>
+  // Codec work and savings, only when options.compression is set
+  compression?: CompressionStats
+  // Time lost to other tabs, for multi-tab runs
+  contention?: ContentionStats
+  // Dead bytes removed, for compaction
+  reclaimedBytes?: number
 }
 
-// Benchmark just looping through files - unchanged
-export async function benchmarkLoopOnly(entries: Array<any>): Promise<BenchmarkResult> {
-  const benchmark: BenchmarkResult = {
+// One batch of a write or read loop, start is relative to the benchmark's startTime
+export type BatchSample = {
+  index: number
+  files: number
+  bytes: number
+  start: number
+  duration: number
+}
+
+// What a benchmark is doing right now, with the files and bytes it has got through so far
+export type BenchmarkProgress = {
+  phase: string
+  files: number
+  bytes: number
+  // Files the phase expects to get through, when that's known up front
+  total?: number
+}
+
+// Hooks every benchmark takes from the run: progress reports and cancellation
+export type BenchmarkContext = {
+  signal?: AbortSignal
+  onProgress?: (progress: BenchmarkProgress) => void
+}
+
+export type BenchmarkConfig = {
+  id: string
+  title: string
+  // Backend the benchmark runs against, unset for backend-independent ones
+  backendId?: string
+  // Write benchmark whose data this one works on, run untimed first when it isn't in place
+  requires?: string
+  // On write benchmarks others require: whether their data is already stored
+  isPopulated?: (options: StorageOptions) => Promise<boolean>
+  // Untimed preparation before every iteration
+  setup?: (source: FileSource, options: StorageOptions, context: BenchmarkContext) => Promise<void>
+  // Options are the run-wide storage options, benchmarks may override them
+  runBenchmark: (
+    source: FileSource,
+    options: StorageOptions,
+    context: BenchmarkContext,
+  ) => Promise<BenchmarkResult>
+}
+
+function createResult(implementation?: string, options?: StorageOptions): BenchmarkResult {
+  return {
     startTime: performance.now(),
     endTime: 0,
     duration: 0,
@@ -34,152 +133,1068 @@ export async function benchmarkLoopOnly(entries: Array<any>): Promise<BenchmarkR
     totalSize: 0,
     errorCount: 0,
     dirCount: 0,
+    implementation,
+    options,
   }
+}
 
-  // Rest of the function remains unchanged
-  try {
-    const queue = [...entries]
+function finishResult(benchmark: BenchmarkResult): void {
+  benchmark.endTime = performance.now()
+  // Hashing is bookkeeping for verification, not storage work
+  benchmark.duration =
+    benchmark.endTime - benchmark.startTime - (benchmark.verification?.hashDuration ?? 0)
+}
 
-    while (queue.length > 0) {
-      const entry = queue.shift()
+// Report progress, throwing the signal's AbortError once the run is cancelled
+function reportProgress(
+  context: BenchmarkContext,
+  benchmark: BenchmarkResult,
+  phase: string,
+  total?: number,
+): void {
+  context.signal?.throwIfAborted()
+  context.onProgress?.({ phase, files: benchmark.fileCount, bytes: benchmark.totalSize, total })
+}
 
-      if (entry.isFile) {
-        try {
-          const file = await getFileFromEntry(entry)
-          benchmark.fileCount++
-          benchmark.totalSize += file.size
-        } catch (error) {
-          console.error(`Error processing file: ${error}`)
-          benchmark.errorCount++
-        }
-      } else if (entry.isDirectory) {
-        try {
-          benchmark.dirCount++
-          const dirEntries = await readDirectoryEntries(entry)
-          queue.push(...dirEntries)
-        } catch (error) {
-          console.error(`Error reading directory: ${error}`)
-          benchmark.errorCount++
-        }
+// Add a batch that started at `start` and just finished to the result's timeline,
+// leaving out `excluded` ms of bookkeeping done along the way
+function recordBatch(
+  benchmark: BenchmarkResult,
+  start: number,
+  files: number,
+  bytes: number,
+  excluded = 0,
+): void {
+  benchmark.batches ??= []
+  benchmark.batches.push({
+    index: benchmark.batches.length,
+    files,
+    bytes,
+    start: start - benchmark.startTime,
+    duration: performance.now() - start - excluded,
+  })
+}
+
+// Count a failed benchmark, unless it failed because the run was cancelled,
+// in which case the partial result is kept and marked
+function recordFailure(
+  benchmark: BenchmarkResult,
+  context: BenchmarkContext,
+  label: string,
+  error: unknown,
+): void {
+  if (context.signal?.aborted) {
+    benchmark.aborted = true
+    return
+  }
+  console.error(`Error during ${label} benchmark:`, error)
+  benchmark.errorCount++
+}
+
+// Walk the source, counting files, directories and errors on the result
+async function consumeSource(
+  source: FileSource,
+  benchmark: BenchmarkResult,
+  context: BenchmarkContext,
+  phase: string,
+  onFile: (file: StoredFile) => Promise<void>,
+): Promise<void> {
+  for await (const item of source()) {
+    reportProgress(context, benchmark, phase)
+    if (item.kind === 'directory') {
+      benchmark.dirCount++
+    } else if (item.kind === 'error') {
+      console.error(item.error)
+      benchmark.errorCount++
+    } else {
+      try {
+        benchmark.fileCount++
+        benchmark.totalSize += item.file.size
+        await onFile({ path: item.path, file: item.file })
+      } catch (error) {
+        console.error(`Error processing file: ${error}`)
+        benchmark.errorCount++
       }
     }
+  }
+}
+
+// The backend wrapped in the codec layer when compressing, counting into `compression`
+function codecFor(
+  backend: StorageBackend,
+  options: StorageOptions,
+  compression?: CompressionStats,
+): StorageBackend {
+  if (!options.compression) return backend
+  return compressedBackend(backend, options.compression, options.compressionThreshold, compression)
+}
+
+// The backend as seen through the storage options: compressed per file or per chunk,
+// and split into chunk records in chunked mode
+function storageFor(
+  backend: StorageBackend,
+  options: StorageOptions,
+  compression?: CompressionStats,
+): StorageBackend {
+  if (!options.chunkSize) return codecFor(backend, options, compression)
+  if (options.compressionScope === 'chunk') {
+    return chunkedBackend(codecFor(backend, options, compression), options.chunkSize)
+  }
+  return codecFor(chunkedBackend(backend, options.chunkSize), options, compression)
+}
+
+// Chunks can be streamed unless whole files were compressed before chunking
+function canStream(options: StorageOptions): boolean {
+  return !!options.chunkSize && (!options.compression || options.compressionScope === 'chunk')
+}
+
+// Read a stream to the end, returning how many bytes came through
+async function streamSize(stream: ReadableStream<Uint8Array>): Promise<number> {
+  const reader = stream.getReader()
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) return size
+    size += value.byteLength
+  }
+}
+
+// Benchmark just looping through files
+export async function benchmarkLoopOnly(
+  source: FileSource,
+  context: BenchmarkContext = {},
+): Promise<BenchmarkResult> {
+  const benchmark = createResult()
+
+  try {
+    await consumeSource(source, benchmark, context, 'loop', async () => {})
+  } catch (error) {
+    if (!context.signal?.aborted) throw error
+    benchmark.aborted = true
   } finally {
-    benchmark.endTime = performance.now()
-    benchmark.duration = benchmark.endTime - benchmark.startTime
+    finishResult(benchmark)
   }
 
   return benchmark
 }
 
-// Modified to accept implementation parameter
-export async function benchmarkWriteToIndexedDB(
-  entries: Array<any>,
-  useIDB = false,
+// Walk the source once, keeping every item in `items` so the benchmarks after it can replay
+// them from memory and leave directory traversal out of their durations
+export async function benchmarkTraversal(
+  source: FileSource,
+  items: Array<SourceItem>,
+  context: BenchmarkContext = {},
 ): Promise<BenchmarkResult> {
-  const benchmark: BenchmarkResult = {
-    startTime: performance.now(),
-    endTime: 0,
-    duration: 0,
-    fileCount: 0,
-    totalSize: 0,
-    errorCount: 0,
-    dirCount: 0,
-    implementation: useIDB ? 'IDB' : 'IndexedDB',
+  const recording: FileSource = async function* () {
+    for await (const item of source()) {
+      items.push(item)
+      yield item
+    }
   }
+  return benchmarkLoopOnly(recording, context)
+}
+
+export const TRAVERSAL_ID = 'traversal'
+
+// Shown and reported like a benchmark, but the runner runs it once before the others
+export const traversalBenchmark: BenchmarkConfig = {
+  id: TRAVERSAL_ID,
+  title: 'Source traversal',
+  runBenchmark: (source, _options, context) => benchmarkTraversal(source, [], context),
+}
+
+// Write every source file to the backend in batches of its preferred size (and byte budget),
+// or all at once when a single transaction is requested
+export async function benchmarkWrite(
+  backend: StorageBackend,
+  source: FileSource,
+  options: StorageOptions = {},
+  context: BenchmarkContext = {},
+): Promise<BenchmarkResult> {
+  await backend.init()
+  const compression = options.compression ? emptyCompressionStats() : undefined
+  const storage = storageFor(backend, options, compression)
+  const benchmark = createResult(storage.title, options)
+  benchmark.compression = compression
+  const batchSize =
+    options.transactionMode === 'single'
+      ? Number.POSITIVE_INFINITY
+      : (options.batchSize ?? backend.batchSize)
+
+  if (options.verify) benchmark.verification = emptyVerification()
 
   try {
-    const queue = [...entries]
-    const batchSize = useIDB ? IDB_BATCH_SIZE : INDEXEDDB_BATCH_SIZE
-    let currentBatch: Array<File> = []
+    let currentBatch: Array<StoredFile> = []
+    let currentBatchBytes = 0
+    const writtenPaths = new Set<string>()
+
+    await consumeSource(source, benchmark, context, 'write', async (file) => {
+      // Store the digest with the metadata so reads can check against it
+      if (benchmark.verification) {
+        const digest = await timedSha256(file.file, benchmark.verification)
+        file.metadata = { ...fileMetadata(file.path, file.file), sha256: digest }
+      }
+      currentBatch.push(file)
+      currentBatchBytes += file.file.size
+      writtenPaths.add(file.path)
+
+      // Process batch when it reaches the target size
+      if (
+        currentBatch.length >= batchSize ||
+        (options.batchBytes && currentBatchBytes >= options.batchBytes)
+      ) {
+        const batch = currentBatch
+        const batchBytes = currentBatchBytes
+        currentBatch = []
+        currentBatchBytes = 0
+        const start = performance.now()
+        await storage.putBatch(batch, options)
+        recordBatch(benchmark, start, batch.length, batchBytes)
+      }
+    })
 
-    while (queue.length > 0) {
-      const entry = queue.shift()
+    // Save any remaining files in the last batch
+    if (currentBatch.length > 0) {
+      const start = performance.now()
+      await storage.putBatch(currentBatch, options)
+      recordBatch(benchmark, start, currentBatch.length, currentBatchBytes)
+    }
+    benchmark.writtenCount = writtenPaths.size
+  } catch (error) {
+    if (!context.signal?.aborted) throw error
+    benchmark.aborted = true
+  } finally {
+    finishResult(benchmark)
+  }
 
-      if (entry.isFile) {
-        try {
-          const file = await getFileFromEntry(entry)
-          benchmark.fileCount++
-          benchmark.totalSize += file.size
+  return benchmark
+}
 
-          currentBatch.push(file)
+// Read back every stored record in batches, checking them against the metadata
+// and, when verifying, their contents against the write-time digests
+export async function benchmarkRead(
+  backend: StorageBackend,
+  options: StorageOptions = {},
+  context: BenchmarkContext = {},
+): Promise<BenchmarkResult> {
+  await backend.init()
+  const compression = options.compression ? emptyCompressionStats() : undefined
+  const storage = storageFor(backend, options, compression)
+  // Hashing reads every byte, so verified reads are labelled materialized to keep them from
+  // being compared against lazy reads that never touch the contents
+  const benchmark = createResult(
+    storage.title,
+    options.verify ? { ...options, materialize: true } : options,
+  )
+  benchmark.compression = compression
+  const verification = options.verify ? emptyVerification() : undefined
+  benchmark.verification = verification
 
-          // Process batch when it reaches the target size
-          if (currentBatch.length >= batchSize) {
-            if (useIDB) {
-              await batchSaveToIDB(currentBatch)
-            } else {
-              await batchSaveToIndexedDB(currentBatch)
-            }
-            currentBatch = []
+  try {
+    const metadata = await storage.listMetadata()
+    const keys = await storage.listKeys()
+    const digests = new Map(metadata.map((record) => [record.path, record.sha256]))
+    const recoveredPaths = new Set<string>()
+    const batchSize =
+      options.transactionMode === 'single' ? keys.length : (options.batchSize ?? backend.batchSize)
+
+    for (let i = 0; i < keys.length; i += batchSize) {
+      reportProgress(context, benchmark, 'read', keys.length)
+      const batchKeys = keys.slice(i, i + batchSize)
+      const start = performance.now()
+      const filesBefore = benchmark.fileCount
+      const bytesBefore = benchmark.totalSize
+      const hashBefore = verification?.hashDuration ?? 0
+
+      // Chunked files are streamed chunk by chunk rather than assembled in memory,
+      // except when verifying since hashing needs the whole file
+      if (canStream(options) && options.materialize && !verification) {
+        const chunkStore = codecFor(backend, options, compression)
+        for (const key of batchKeys) {
+          try {
+            benchmark.totalSize += await streamSize(readStream(chunkStore, key, options))
+            benchmark.fileCount++
+            recoveredPaths.add(key)
+          } catch (error) {
+            recordFailure(benchmark, context, `streamed read of ${key}`, error)
           }
-        } catch (error) {
-          console.error(`Error processing file: ${error}`)
-          benchmark.errorCount++
         }
-      } else if (entry.isDirectory) {
-        try {
-          benchmark.dirCount++
-          const dirEntries = await readDirectoryEntries(entry)
-          queue.push(...dirEntries)
-        } catch (error) {
-          console.error(`Error reading directory: ${error}`)
-          benchmark.errorCount++
+        recordBatch(
+          benchmark,
+          start,
+          benchmark.fileCount - filesBefore,
+          benchmark.totalSize - bytesBefore,
+        )
+        continue
+      }
+
+      const values = await storage.getBatch(batchKeys, options)
+
+      // Count files and total size, reading the actual bytes when materializing
+      for (const [index, value] of values.entries()) {
+        if (!value) continue
+        // Verifying needs the bytes too, so pull them in just once
+        const bytes = options.materialize || verification ? await materializeValue(value) : null
+        const size = bytes ? bytes.byteLength : readValueSize(value)
+        benchmark.fileCount++
+        benchmark.totalSize += size
+        recoveredPaths.add(batchKeys[index])
+
+        if (verification) {
+          const expected = digests.get(batchKeys[index])
+          if (!expected) {
+            verification.unhashed++
+          } else if ((await timedSha256(bytes ?? value, verification)) === expected) {
+            verification.verified++
+          } else {
+            verification.mismatched++
+          }
         }
       }
+      // Hashing is left out of batch durations, as it is of the total
+      recordBatch(
+        benchmark,
+        start,
+        benchmark.fileCount - filesBefore,
+        benchmark.totalSize - bytesBefore,
+        (verification?.hashDuration ?? 0) - hashBefore,
+      )
     }
 
-    // Save any remaining files in the last batch
-    if (currentBatch.length > 0) {
-      if (useIDB) {
-        await batchSaveToIDB(currentBatch)
-      } else {
-        await batchSaveToIndexedDB(currentBatch)
-      }
+    const missing = metadata.filter((record) => !recoveredPaths.has(record.path))
+    benchmark.writtenCount = metadata.length
+    benchmark.recoveredCount = recoveredPaths.size
+    benchmark.missingCount = missing.length
+    if (verification) {
+      verification.missing = missing.filter((record) => record.sha256).length
     }
+    benchmark.dirCount = new Set(metadata.map((record) => record.parent)).size
+  } catch (error) {
+    recordFailure(benchmark, context, 'read', error)
   } finally {
-    benchmark.endTime = performance.now()
-    benchmark.duration = benchmark.endTime - benchmark.startTime
+    finishResult(benchmark)
   }
 
   return benchmark
 }
 
-// Modified to accept implementation parameter
-export async function benchmarkReadFromIndexedDB(useIDB = false): Promise<BenchmarkResult> {
-  const benchmark: BenchmarkResult = {
-    startTime: performance.now(),
-    endTime: 0,
-    duration: 0,
-    fileCount: 0,
-    totalSize: 0,
-    errorCount: 0,
-    dirCount: 0,
-    implementation: useIDB ? 'IDB' : 'IndexedDB',
+// Count a value returned by an access-pattern read, pulling in its bytes when materializing
+async function countAccessValue(
+  benchmark: BenchmarkResult,
+  value: ReadValue | null,
+  options: StorageOptions,
+): Promise<void> {
+  if (!value) {
+    benchmark.missingCount = (benchmark.missingCount ?? 0) + 1
+    return
   }
+  benchmark.fileCount++
+  benchmark.totalSize += options.materialize
+    ? (await materializeValue(value)).byteLength
+    : readValueSize(value)
+}
+
+// Access-pattern reads go straight to the backend's records. Under chunking those include
+// chunk and manifest records, and under compression they're header-prefixed compressed bytes,
+// so neither would be counted as the files that were written.
+function checkRawRecords(options: StorageOptions): void {
+  if (options.chunkSize || options.compression) {
+    throw new Error('Access-pattern reads need plain records, without chunking or compression')
+  }
+}
+
+// Time one access-pattern operation, including materializing what it returned
+async function timeAccess(latencies: Array<number>, operation: () => Promise<void>): Promise<void> {
+  const start = performance.now()
+  await operation()
+  latencies.push(performance.now() - start)
+}
+
+// Look up a seeded random sample of keys one at a time, a transaction per lookup.
+// Listing and sampling the keys happens before the clock starts.
+export async function benchmarkPointLookups(
+  backend: StorageBackend,
+  access: AccessPatterns,
+  options: StorageOptions = {},
+  context: BenchmarkContext = {},
+): Promise<BenchmarkResult> {
+  checkRawRecords(options)
+  await backend.init()
+  const { sampleSize, seed } = accessSettings(options)
+  const keys = sampleItems(await backend.listKeys(), sampleSize, seed)
+  const benchmark = createResult(backend.title, options)
+  const latencies: Array<number> = []
 
   try {
-    // Get all keys from the appropriate store
-    const keys = useIDB ? await getAllKeysFromIDB() : await getAllKeysFromIndexedDB()
+    for (const key of keys) {
+      reportProgress(context, benchmark, 'point lookups', keys.length)
+      await timeAccess(latencies, async () => {
+        await countAccessValue(benchmark, await access.getOne(key), options)
+      })
+    }
+  } catch (error) {
+    recordFailure(benchmark, context, 'point lookup', error)
+  } finally {
+    benchmark.latency = summarizeLatencies(latencies)
+    finishResult(benchmark)
+  }
 
-    // Read files in batches using the appropriate method
-    const files = useIDB
-      ? await batchReadFromIDB(keys, IDB_BATCH_SIZE)
-      : await batchReadFromIndexedDB(keys, INDEXEDDB_BATCH_SIZE)
+  return benchmark
+}
 
-    // Count files and total size
-    for (const file of files) {
-      if (file && file.size !== undefined) {
+// Walk the whole store with one cursor, the latency of a step is the wait for the next record.
+// Records can't be materialized mid-walk since awaiting would end the transaction.
+export async function benchmarkCursor(
+  backend: StorageBackend,
+  access: AccessPatterns,
+  options: StorageOptions = {},
+  context: BenchmarkContext = {},
+): Promise<BenchmarkResult> {
+  checkRawRecords(options)
+  await backend.init()
+  const benchmark = createResult(backend.title, options)
+  const latencies: Array<number> = []
+
+  try {
+    let last = performance.now()
+    await access.iterate(null, (value) => {
+      // Throwing here would escape the request callback, so cancelling waits for the walk to end
+      if (!context.signal?.aborted) reportProgress(context, benchmark, 'cursor')
+      const now = performance.now()
+      latencies.push(now - last)
+      last = now
+      if (value) {
+        benchmark.fileCount++
+        benchmark.totalSize += readValueSize(value)
+      }
+    })
+  } catch (error) {
+    recordFailure(benchmark, context, 'cursor', error)
+  } finally {
+    benchmark.latency = summarizeLatencies(latencies)
+    finishResult(benchmark)
+  }
+
+  return benchmark
+}
+
+// Page through the store with getAll calls limited to options.pageSize records each
+export async function benchmarkGetAllPages(
+  backend: StorageBackend,
+  access: AccessPatterns,
+  options: StorageOptions = {},
+  context: BenchmarkContext = {},
+): Promise<BenchmarkResult> {
+  checkRawRecords(options)
+  await backend.init()
+  const { pageSize } = accessSettings(options)
+  // Page boundaries come from the sorted key list, so the pages need no key reads of their own
+  const keys = await backend.listKeys()
+  const benchmark = createResult(backend.title, options)
+  const latencies: Array<number> = []
+
+  try {
+    for (let i = 0; i < keys.length; i += pageSize) {
+      reportProgress(context, benchmark, 'getAll pages', keys.length)
+      await timeAccess(latencies, async () => {
+        const values = await access.getAll(IDBKeyRange.lowerBound(keys[i]), pageSize)
+        for (const value of values) {
+          await countAccessValue(benchmark, value, options)
+        }
+      })
+    }
+  } catch (error) {
+    recordFailure(benchmark, context, 'getAll', error)
+  } finally {
+    benchmark.latency = summarizeLatencies(latencies)
+    finishResult(benchmark)
+  }
+
+  return benchmark
+}
+
+// Read everything under a seeded random sample of directories with key range scans,
+// which include the files of their subdirectories
+export async function benchmarkPrefixScans(
+  backend: StorageBackend,
+  access: AccessPatterns,
+  options: StorageOptions = {},
+  context: BenchmarkContext = {},
+): Promise<BenchmarkResult> {
+  checkRawRecords(options)
+  await backend.init()
+  const { sampleSize, seed } = accessSettings(options)
+  const metadata = await backend.listMetadata()
+  const directories = [...new Set(metadata.map((record) => record.parent))].filter(
+    (directory) => directory !== '/',
+  )
+  const sample = sampleItems(directories.sort(), sampleSize, seed)
+  const benchmark = createResult(backend.title, options)
+  const latencies: Array<number> = []
+
+  try {
+    for (const directory of sample) {
+      reportProgress(context, benchmark, 'prefix scans')
+      await timeAccess(latencies, async () => {
+        const values = await access.getAll(prefixRange(`${directory}/`))
+        for (const value of values) {
+          await countAccessValue(benchmark, value, options)
+        }
+      })
+    }
+    benchmark.dirCount = sample.length
+  } catch (error) {
+    recordFailure(benchmark, context, 'prefix scan', error)
+  } finally {
+    benchmark.latency = summarizeLatencies(latencies)
+    finishResult(benchmark)
+  }
+
+  return benchmark
+}
+
+// Rewrite a seeded random sample of records with changed contents, read-modify-write style.
+// The first bytes are stamped so sizes stay the same.
+export async function benchmarkUpdate(
+  backend: StorageBackend,
+  options: StorageOptions = {},
+  context: BenchmarkContext = {},
+): Promise<BenchmarkResult> {
+  await backend.init()
+  const storage = storageFor(backend, options)
+  const { sampleSize, seed } = accessSettings(options)
+  const keys = sampleItems(await storage.listKeys(), sampleSize, seed)
+  const before = await estimateStorage()
+  const benchmark = createResult(storage.title, options)
+  if (options.verify) benchmark.verification = emptyVerification()
+  const stamp = new TextEncoder().encode(`updated ${Date.now()}`)
+
+  try {
+    for (let i = 0; i < keys.length; i += backend.batchSize) {
+      reportProgress(context, benchmark, 'update', keys.length)
+      const batchKeys = keys.slice(i, i + backend.batchSize)
+      const values = await storage.getBatch(batchKeys, options)
+      const updated: Array<StoredFile> = []
+
+      for (const [index, value] of values.entries()) {
+        if (!value) {
+          benchmark.missingCount = (benchmark.missingCount ?? 0) + 1
+          continue
+        }
+        const path = batchKeys[index]
+        const blob = value instanceof Blob ? value : new Blob([value])
+        // Files shorter than the stamp get as much of it as fits
+        const head = stamp.subarray(0, blob.size)
+        const file = new File([head, blob.slice(head.length)], path.split('/').pop() ?? path, {
+          type: blob.type,
+        })
+        // Keep the stored digests current so verified reads still check out
+        const metadata = benchmark.verification
+          ? { ...fileMetadata(path, file), sha256: await timedSha256(file, benchmark.verification) }
+          : undefined
+        updated.push({ path, file, metadata })
         benchmark.fileCount++
         benchmark.totalSize += file.size
       }
+
+      await storage.putBatch(updated, options)
+    }
+  } catch (error) {
+    recordFailure(benchmark, context, 'update', error)
+  } finally {
+    finishResult(benchmark)
+  }
+
+  benchmark.storage = { before, after: await estimateStorage() }
+  return benchmark
+}
+
+// Compact the store once, dropping the dead bytes left by earlier overwrites, updates and deletes
+export async function benchmarkCompact(
+  backend: StorageBackend,
+  compact: () => Promise<number>,
+  options: StorageOptions = {},
+  context: BenchmarkContext = {},
+): Promise<BenchmarkResult> {
+  await backend.init()
+  const storage = storageFor(backend, options)
+  const fileCount = (await storage.listKeys()).length
+  const before = await estimateStorage()
+  const benchmark = createResult(storage.title, options)
+
+  try {
+    benchmark.reclaimedBytes = await compact()
+    benchmark.fileCount = fileCount
+  } catch (error) {
+    recordFailure(benchmark, context, 'compact', error)
+  } finally {
+    finishResult(benchmark)
+  }
+
+  benchmark.storage = { before, after: await estimateStorage() }
+  return benchmark
+}
+
+// Delete every stored record in batches
+export async function benchmarkDelete(
+  backend: StorageBackend,
+  options: StorageOptions = {},
+  context: BenchmarkContext = {},
+): Promise<BenchmarkResult> {
+  await backend.init()
+  const storage = storageFor(backend, options)
+  const before = await estimateStorage()
+  const benchmark = createResult(storage.title, options)
+
+  try {
+    const keys = await storage.listKeys()
+
+    for (let i = 0; i < keys.length; i += backend.batchSize) {
+      reportProgress(context, benchmark, 'delete', keys.length)
+      const batchKeys = keys.slice(i, i + backend.batchSize)
+      await storage.deleteBatch(batchKeys)
+      benchmark.fileCount += batchKeys.length
+    }
+  } catch (error) {
+    recordFailure(benchmark, context, 'delete', error)
+  } finally {
+    finishResult(benchmark)
+  }
+
+  benchmark.storage = { before, after: await estimateStorage() }
+  return benchmark
+}
+
+// Empty the store in one go, keeping it around
+export async function benchmarkClear(
+  backend: StorageBackend,
+  options: StorageOptions = {},
+  context: BenchmarkContext = {},
+): Promise<BenchmarkResult> {
+  await backend.init()
+  const storage = storageFor(backend, options)
+  const fileCount = (await storage.listKeys()).length
+  const before = await estimateStorage()
+  const benchmark = createResult(storage.title, options)
+
+  try {
+    await backend.clear()
+    benchmark.fileCount = fileCount
+  } catch (error) {
+    recordFailure(benchmark, context, 'clear', error)
+  } finally {
+    finishResult(benchmark)
+  }
+
+  benchmark.storage = { before, after: await estimateStorage() }
+  return benchmark
+}
+
+// Remove the whole database or directory, later benchmarks reopen it through init()
+export async function benchmarkDestroy(
+  backend: StorageBackend,
+  options: StorageOptions = {},
+  context: BenchmarkContext = {},
+): Promise<BenchmarkResult> {
+  await backend.init()
+  const storage = storageFor(backend, options)
+  const fileCount = (await storage.listKeys()).length
+  const before = await estimateStorage()
+  const benchmark = createResult(storage.title, options)
+
+  try {
+    await backend.destroy()
+    benchmark.fileCount = fileCount
+  } catch (error) {
+    recordFailure(benchmark, context, 'destroy', error)
+  } finally {
+    finishResult(benchmark)
+  }
+
+  benchmark.storage = { before, after: await estimateStorage() }
+  return benchmark
+}
+
+// Gather the source's files up front, untimed, so they can be spread over parallel lanes
+async function collectFiles(
+  source: FileSource,
+  context: BenchmarkContext,
+): Promise<{ files: Array<StoredFile>; collected: BenchmarkResult }> {
+  const files: Array<StoredFile> = []
+  const collected = createResult()
+  await consumeSource(source, collected, context, 'collect', async (file) => {
+    files.push(file)
+  })
+  return { files, collected }
+}
+
+function laneCount(options: StorageOptions): number {
+  return Math.max(options.concurrency ?? DEFAULT_CONCURRENCY, 1)
+}
+
+// The layout's open databases, and its loaded workers in the workers layout
+type PreparedLanes = {
+  layout: ConcurrencyLayout
+  connections: Map<string, IDBPDatabase>
+  workers: Array<Worker>
+}
+
+// Open the layout, upgrading it as needed, and load its workers, so that neither counts
+// as writing
+async function prepareLanes(layout: ConcurrencyLayout, lanes: number): Promise<PreparedLanes> {
+  const connections = await openLayout(layout, lanes)
+  try {
+    const workers =
+      layout === 'workers'
+        ? await startLaneWorkers(
+            Array.from({ length: lanes }, (_, lane) => laneTarget(layout, lane)),
+          )
+        : []
+    return { layout, connections, workers }
+  } catch (error) {
+    closeLayout(connections)
+    throw error
+  }
+}
+
+function releaseLanes({ connections, workers }: PreparedLanes): void {
+  for (const worker of workers) {
+    worker.terminate()
+  }
+  closeLayout(connections)
+}
+
+// Write every lane at the same time, calling onLane as each one finishes
+async function writeLanes(
+  { layout, connections, workers }: PreparedLanes,
+  parts: Array<Array<StoredFile>>,
+  options: StorageOptions,
+  onLane: (files: Array<StoredFile>) => void = () => {},
+): Promise<void> {
+  await Promise.all(
+    parts.map(async (files, lane) => {
+      const target = laneTarget(layout, lane)
+      if (layout === 'workers') {
+        await runLaneWorker(workers[lane], files, options)
+      } else {
+        await writeLane(connections.get(target.dbName)!, target.storeName, files, options)
+      }
+      onLane(files)
+    }),
+  )
+}
+
+// Write the source split over N lanes laid out as transactions, stores, databases or workers
+export async function benchmarkConcurrentWrite(
+  layout: ConcurrencyLayout,
+  source: FileSource,
+  options: StorageOptions = {},
+  context: BenchmarkContext = {},
+): Promise<BenchmarkResult> {
+  const lanes = laneCount(options)
+  const { files, collected } = await collectFiles(source, context)
+  const parts = partition(files, lanes)
+  const prepared = await prepareLanes(layout, lanes)
+  const benchmark = createResult(`IndexedDB (${lanes} lanes)`, options)
+  benchmark.lanes = lanes
+  benchmark.dirCount = collected.dirCount
+  benchmark.errorCount = collected.errorCount
+
+  try {
+    await writeLanes(prepared, parts, options, (laneFiles) => {
+      benchmark.fileCount += laneFiles.length
+      benchmark.totalSize += laneFiles.reduce((sum, { file }) => sum + file.size, 0)
+      reportProgress(context, benchmark, 'concurrent write', files.length)
+    })
+    benchmark.writtenCount = files.length
+  } catch (error) {
+    recordFailure(benchmark, context, 'concurrent write', error)
+  } finally {
+    finishResult(benchmark)
+    releaseLanes(prepared)
+  }
+
+  return benchmark
+}
+
+// Read the layout back over N lanes at the same time, a batch per transaction in each lane
+export async function benchmarkConcurrentRead(
+  layout: ConcurrencyLayout,
+  options: StorageOptions = {},
+  context: BenchmarkContext = {},
+): Promise<BenchmarkResult> {
+  const lanes = laneCount(options)
+  const connections = await openLayout(layout, lanes)
+  const benchmark = createResult(`IndexedDB (${lanes} lanes)`, options)
+  benchmark.lanes = lanes
+
+  try {
+    const keys = await laneKeys(connections, layout, lanes)
+    const total = keys.reduce((sum, lane) => sum + lane.length, 0)
+    await Promise.all(
+      keys.map(async (lane, index) => {
+        const { dbName, storeName } = laneTarget(layout, index)
+        const { count, size } = await readLane(connections.get(dbName)!, storeName, lane, options)
+        benchmark.fileCount += count
+        benchmark.totalSize += size
+        reportProgress(context, benchmark, 'concurrent read', total)
+      }),
+    )
+    benchmark.missingCount = total - benchmark.fileCount
+  } catch (error) {
+    recordFailure(benchmark, context, 'concurrent read', error)
+  } finally {
+    finishResult(benchmark)
+    closeLayout(connections)
+  }
+
+  return benchmark
+}
+
+// One tab's share of a multi-tab write, a batch per transaction on the database every tab
+// shares. With upgradeAt, the database is upgraded before that batch, which other tabs
+// have to give way to.
+export async function benchmarkTabWrite(
+  connection: TabConnection,
+  files: Array<StoredFile>,
+  options: StorageOptions = {},
+  upgradeAt?: number,
+  context: BenchmarkContext = {},
+): Promise<BenchmarkResult> {
+  const benchmark = createResult('IndexedDB (shared across tabs)', options)
+  benchmark.contention = connection.contention
+  const batchSize = tabBatchSize(options)
+
+  try {
+    for (let i = 0; i < files.length; i += batchSize) {
+      const batch = files.slice(i, i + batchSize)
+      const start = performance.now()
+      const version =
+        i / batchSize === upgradeAt ? (await tabDatabase(connection)).version + 1 : undefined
+      await writeTabBatch(connection, batch, options, version)
+      const bytes = batch.reduce((sum, { file }) => sum + file.size, 0)
+      benchmark.fileCount += batch.length
+      benchmark.totalSize += bytes
+      recordBatch(benchmark, start, batch.length, bytes)
+      reportProgress(context, benchmark, 'tab write', files.length)
     }
+    benchmark.writtenCount = benchmark.fileCount
   } catch (error) {
-    console.error('Error during read benchmark:', error)
-    benchmark.errorCount++
+    recordFailure(benchmark, context, 'tab write', error)
   } finally {
-    benchmark.endTime = performance.now()
-    benchmark.duration = benchmark.endTime - benchmark.startTime
+    finishResult(benchmark)
   }
 
   return benchmark
 }
+
+// One tab's share of a multi-tab read, the given keys a batch per transaction
+export async function benchmarkTabRead(
+  connection: TabConnection,
+  keys: Array<string>,
+  options: StorageOptions = {},
+  context: BenchmarkContext = {},
+): Promise<BenchmarkResult> {
+  const benchmark = createResult('IndexedDB (shared across tabs)', options)
+  benchmark.contention = connection.contention
+  const batchSize = tabBatchSize(options)
+
+  try {
+    for (let i = 0; i < keys.length; i += batchSize) {
+      const start = performance.now()
+      const { count, size } = await readTabBatch(connection, keys.slice(i, i + batchSize))
+      benchmark.fileCount += count
+      benchmark.totalSize += size
+      recordBatch(benchmark, start, count, size)
+      reportProgress(context, benchmark, 'tab read', keys.length)
+    }
+    benchmark.missingCount = keys.length - benchmark.fileCount
+  } catch (error) {
+    recordFailure(benchmark, context, 'tab read', error)
+  } finally {
+    finishResult(benchmark)
+  }
+
+  return benchmark
+}
+
+// Start every concurrency benchmark from an empty layout, reads from a freshly written one
+async function populateLayout(
+  layout: ConcurrencyLayout,
+  source: FileSource,
+  options: StorageOptions,
+  context: BenchmarkContext,
+): Promise<void> {
+  await deleteLayouts(layout)
+  const { files } = await collectFiles(source, context)
+  const lanes = laneCount(options)
+  const prepared = await prepareLanes(layout, lanes)
+  try {
+    await writeLanes(prepared, partition(files, lanes), options)
+  } finally {
+    releaseLanes(prepared)
+  }
+}
+
+// Writes for every layout, and reads for those the main thread can read back in parallel
+function concurrencyBenchmarks(): Array<BenchmarkConfig> {
+  return concurrencyLayouts.flatMap(({ id: layout, title }) => [
+    {
+      id: `concurrency-${layout}-write`,
+      title: `Concurrent write to IndexedDB (N ${title})`,
+      setup: () => deleteLayouts(layout),
+      runBenchmark: (source, options, context) =>
+        benchmarkConcurrentWrite(layout, source, options, context),
+    },
+    ...(layout === 'workers'
+      ? []
+      : [
+          {
+            id: `concurrency-${layout}-read`,
+            title: `Concurrent read from IndexedDB (N ${title})`,
+            setup: (source: FileSource, options: StorageOptions, context: BenchmarkContext) =>
+              populateLayout(layout, source, options, context),
+            runBenchmark: (
+              _source: FileSource,
+              options: StorageOptions,
+              context: BenchmarkContext,
+            ) => benchmarkConcurrentRead(layout, options, context),
+          },
+        ]),
+  ])
+}
+
+// Whether the backend holds any data as seen through the storage options
+export async function isPopulated(
+  backend: StorageBackend,
+  options: StorageOptions,
+): Promise<boolean> {
+  await backend.init()
+  return (await storageFor(backend, options).listKeys()).length > 0
+}
+
+// Point lookup, cursor, paged getAll and prefix scan reads, for backends that support them
+function accessBenchmarks(backend: StorageBackend): Array<BenchmarkConfig> {
+  const access = backend.access
+  if (!access) return []
+  const dependency = { backendId: backend.id, requires: `${backend.id}-write` }
+
+  return [
+    {
+      id: `${backend.id}-read-point`,
+      title: `Point lookups in ${backend.title} (random sample)`,
+      ...dependency,
+      runBenchmark: (_source, options, context) =>
+        benchmarkPointLookups(backend, access, options, context),
+    },
+    {
+      id: `${backend.id}-read-cursor`,
+      title: `Cursor over ${backend.title}`,
+      ...dependency,
+      runBenchmark: (_source, options, context) =>
+        benchmarkCursor(backend, access, options, context),
+    },
+    {
+      id: `${backend.id}-read-getall`,
+      title: `Paged getAll from ${backend.title}`,
+      ...dependency,
+      runBenchmark: (_source, options, context) =>
+        benchmarkGetAllPages(backend, access, options, context),
+    },
+    {
+      id: `${backend.id}-read-prefix`,
+      title: `Directory prefix scans in ${backend.title} (random sample)`,
+      ...dependency,
+      runBenchmark: (_source, options, context) =>
+        benchmarkPrefixScans(backend, access, options, context),
+    },
+  ]
+}
+
+// Compaction, for backends that need it, after the deletes have left dead bytes behind.
+// It requires no write, which would refill the store the deletes just emptied.
+function compactionBenchmarks(backend: StorageBackend): Array<BenchmarkConfig> {
+  const compact = backend.compact
+  if (!compact) return []
+
+  return [
+    {
+      id: `${backend.id}-compact`,
+      title: `Compact ${backend.title}`,
+      backendId: backend.id,
+      runBenchmark: (_source, options, context) =>
+        benchmarkCompact(backend, compact, options, context),
+    },
+  ]
+}
+
+// Write, overwrite, read, update and removal benchmarks for one backend,
+// with the reads and the update before the removals empty the store.
+// Everything but the first write and compaction requires its data, so any subset can run
+// on its own.
+function backendBenchmarks(backend: StorageBackend): Array<BenchmarkConfig> {
+  const dependency = { backendId: backend.id, requires: `${backend.id}-write` }
+
+  return [
+    {
+      id: `${backend.id}-write`,
+      title: `Write to ${backend.title}`,
+      backendId: backend.id,
+      isPopulated: (options) => isPopulated(backend, options),
+      // Every iteration writes into an empty store, repeats would otherwise be overwrites
+      setup: async () => {
+        await backend.init()
+        await backend.clear()
+      },
+      runBenchmark: (source, options, context) => benchmarkWrite(backend, source, options, context),
+    },
+    {
+      id: `${backend.id}-write-overwrite`,
+      title: `Write to ${backend.title} (overwrite)`,
+      ...dependency,
+      runBenchmark: (source, options, context) => benchmarkWrite(backend, source, options, context),
+    },
+    {
+      id: `${backend.id}-read`,
+      title: `Read from ${backend.title} (Batched)`,
+      ...dependency,
+      runBenchmark: (_source, options, context) => benchmarkRead(backend, options, context),
+    },
+    ...accessBenchmarks(backend),
+    {
+      id: `${backend.id}-update`,
+      title: `Update in ${backend.title} (random sample)`,
+      ...dependency,
+      runBenchmark: (_source, options, context) => benchmarkUpdate(backend, options, context),
+    },
+    {
+      id: `${backend.id}-delete`,
+      title: `Delete from ${backend.title} (Batched)`,
+      ...dependency,
+      runBenchmark: (_source, options, context) => benchmarkDelete(backend, options, context),
+    },
+    ...compactionBenchmarks(backend),
+    {
+      id: `${backend.id}-clear`,
+      title: `Clear ${backend.title}`,
+      ...dependency,
+      runBenchmark: (_source, options, context) => benchmarkClear(backend, options, context),
+    },
+    {
+      id: `${backend.id}-destroy`,
+      title: `Delete ${backend.title} entirely`,
+      ...dependency,
+      runBenchmark: (_source, options, context) => benchmarkDestroy(backend, options, context),
+    },
+  ]
+}
+
+export const benchmarks: Array<BenchmarkConfig> = [
+  {
+    id: 'loop',
+    title: 'Loop Only',
+    runBenchmark: (source, _options, context) => benchmarkLoopOnly(source, context),
+  },
+  ...backends.flatMap(backendBenchmarks),
+  ...concurrencyBenchmarks(),
+]
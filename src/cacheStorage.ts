@@ -0,0 +1,129 @@
+import type { FileMetadata, StorageBackend, StoredFile } from './backends.ts'
+import type { ReadValue } from './encoding.ts'
+import { storedMetadata } from './files.ts'
+import { createMetadataStore } from './metadata.ts'
+
+// Cache variables
+let cache: Cache | null = null
+export const CACHE_NAME = 'filesDB_cache'
+
+export const BATCH_SIZE = 500
+
+// Cache entries are keyed by URL, so paths become URLs on a made-up origin. The reserved
+// .invalid TLD makes sure they never collide with anything the app really fetches.
+const URL_PREFIX = 'https://files.invalid/'
+
+// The Cache API has nowhere to keep metadata, so it lives in a small IndexedDB database
+const metadata = createMetadataStore(`${CACHE_NAME}_meta`)
+
+function keyToURL(key: string): string {
+  return URL_PREFIX + encodeURIComponent(key)
+}
+
+function urlToKey(url: string): string {
+  return decodeURIComponent(url.slice(URL_PREFIX.length))
+}
+
+// Open the cache
+export async function initCacheStorage(): Promise<Cache> {
+  cache = await caches.open(CACHE_NAME)
+
+  console.log('Cache Storage initialized successfully')
+  return cache
+}
+
+// Batch save files as responses, overwriting entries with the same path
+export async function batchSaveToCacheStorage(files: Array<StoredFile>): Promise<void> {
+  if (!cache || files.length === 0) return
+
+  await Promise.all(
+    files.map(({ path, file }) =>
+      cache!.put(
+        keyToURL(path),
+        new Response(file, {
+          headers: { 'Content-Type': file.type || 'application/octet-stream' },
+        }),
+      ),
+    ),
+  )
+
+  await metadata.put(
+    files.map(storedMetadata).filter((record): record is FileMetadata => record !== null),
+  )
+}
+
+// Get all keys from the cache
+export async function getAllKeys(): Promise<Array<string>> {
+  if (!cache) return []
+  return (await cache.keys()).map((request) => urlToKey(request.url))
+}
+
+// Read responses in batches as Blobs, results line up with keys and are null for missing entries
+export async function batchReadFromCacheStorage(
+  keys: Array<string>,
+  batchSize: number,
+): Promise<Array<ReadValue | null>> {
+  if (!cache || keys.length === 0) return []
+
+  const results: Array<ReadValue | null> = []
+
+  for (let i = 0; i < keys.length; i += batchSize) {
+    const batchResults = await Promise.all(
+      keys.slice(i, i + batchSize).map(async (key): Promise<ReadValue | null> => {
+        const response = await cache!.match(keyToURL(key))
+        return response ? response.blob() : null
+      }),
+    )
+    results.push(...batchResults)
+  }
+
+  return results
+}
+
+// Batch delete entries and their metadata from the cache
+export async function batchDeleteFromCacheStorage(keys: Array<string>): Promise<void> {
+  if (!cache || keys.length === 0) return
+
+  await Promise.all(keys.map((key) => cache!.delete(keyToURL(key))))
+  await metadata.delete(keys)
+}
+
+// Remove every entry, keeping the cache itself
+export async function clearCacheStorage(): Promise<void> {
+  if (!cache) return
+
+  const requests = await cache.keys()
+  await Promise.all(requests.map((request) => cache!.delete(request)))
+  await metadata.clear()
+}
+
+export function closeCacheStorage(): void {
+  cache = null
+  metadata.close()
+}
+
+// Delete the cache and its metadata
+export async function deleteCacheStorage(): Promise<void> {
+  closeCacheStorage()
+  await metadata.destroy()
+  await caches.delete(CACHE_NAME)
+}
+
+export const cacheStorageBackend: StorageBackend = {
+  id: 'cache',
+  title: 'Cache Storage',
+  batchSize: BATCH_SIZE,
+  transactional: false,
+  init: async () => {
+    if (!cache) await initCacheStorage()
+  },
+  putBatch: (files) => batchSaveToCacheStorage(files),
+  listKeys: getAllKeys,
+  listMetadata: metadata.getAll,
+  getBatch: (keys, options = {}) =>
+    batchReadFromCacheStorage(keys, options.batchSize ?? BATCH_SIZE),
+  deleteBatch: batchDeleteFromCacheStorage,
+  clear: clearCacheStorage,
+  close: closeCacheStorage,
+  destroy: deleteCacheStorage,
+}
@@ -0,0 +1,164 @@
+import type { StorageBackend, StorageOptions, StoredFile } from './backends.ts'
+import { type ReadValue, materializeValue } from './encoding.ts'
+import { storedMetadata } from './files.ts'
+
+const MB = 1024 * 1024
+
+export const chunkSizes = [1 * MB, 4 * MB, 16 * MB]
+
+// Choices for options.batchBytes, which applies to plain writes too
+export const batchByteLimits = [16 * MB, 64 * MB, 256 * MB]
+
+// Byte budget per underlying putBatch call, unless options.batchBytes says otherwise
+const DEFAULT_BATCH_BYTES = 64 * MB
+
+const CHUNK_PREFIX = 'chunk:'
+export const MANIFEST_TYPE = 'application/x-chunk-manifest+json'
+
+// Stored under the file's own path, describing where its chunks live
+export type ChunkManifest = {
+  path: string
+  size: number
+  type: string
+  lastModified: number
+  chunkSize: number
+  chunkCount: number
+}
+
+// Chunk keys sort by path first, so a file's chunks sit next to each other
+export function chunkKey(path: string, index: number): string {
+  return `${CHUNK_PREFIX}${path}:${String(index).padStart(6, '0')}`
+}
+
+export function isChunkKey(key: string): boolean {
+  return key.startsWith(CHUNK_PREFIX)
+}
+
+function chunkKeys(manifest: ChunkManifest): Array<string> {
+  return Array.from({ length: manifest.chunkCount }, (_, index) => chunkKey(manifest.path, index))
+}
+
+// The manifest record followed by one record per chunk, only the manifest carries metadata
+function splitFile(stored: StoredFile, chunkSize: number): Array<StoredFile> {
+  const { path, file } = stored
+  const chunkCount = Math.ceil(file.size / chunkSize)
+  const manifest: ChunkManifest = {
+    path,
+    size: file.size,
+    type: file.type,
+    lastModified: file.lastModified,
+    chunkSize,
+    chunkCount,
+  }
+
+  const records: Array<StoredFile> = [
+    {
+      path,
+      file: new File([JSON.stringify(manifest)], file.name, { type: MANIFEST_TYPE }),
+      metadata: storedMetadata(stored),
+    },
+  ]
+  for (let index = 0; index < chunkCount; index++) {
+    records.push({
+      path: chunkKey(path, index),
+      file: new File([file.slice(index * chunkSize, (index + 1) * chunkSize)], file.name),
+      metadata: null,
+    })
+  }
+  return records
+}
+
+async function parseManifest(value: ReadValue | null): Promise<ChunkManifest | null> {
+  if (!value) return null
+  try {
+    return JSON.parse(new TextDecoder().decode(await materializeValue(value)))
+  } catch {
+    return null
+  }
+}
+
+async function readManifests(
+  backend: StorageBackend,
+  keys: Array<string>,
+  options?: StorageOptions,
+): Promise<Array<ChunkManifest | null>> {
+  return Promise.all((await backend.getBatch(keys, options)).map(parseManifest))
+}
+
+// Wrap a backend so every file is stored as a manifest plus fixed-size chunk records.
+// Reads reassemble the chunks into one Blob; use readStream() to go chunk by chunk.
+export function chunkedBackend(backend: StorageBackend, chunkSize: number): StorageBackend {
+  return {
+    ...backend,
+    id: `${backend.id}-chunked`,
+    title: `${backend.title} (chunked)`,
+    putBatch: async (files, options = {}) => {
+      // Flush by bytes as well as count, one large file can expand into many chunk records
+      const batchBytes = options.batchBytes ?? DEFAULT_BATCH_BYTES
+      const batchSize = options.batchSize ?? backend.batchSize
+      let batch: Array<StoredFile> = []
+      let bytes = 0
+
+      for (const file of files) {
+        for (const record of splitFile(file, chunkSize)) {
+          batch.push(record)
+          bytes += record.file.size
+          if (bytes >= batchBytes || batch.length >= batchSize) {
+            await backend.putBatch(batch, options)
+            batch = []
+            bytes = 0
+          }
+        }
+      }
+      if (batch.length > 0) {
+        await backend.putBatch(batch, options)
+      }
+    },
+    listKeys: async () => (await backend.listKeys()).filter((key) => !isChunkKey(key)),
+    getBatch: async (keys, options) => {
+      const manifests = await readManifests(backend, keys, options)
+      return Promise.all(
+        manifests.map(async (manifest) => {
+          if (!manifest) return null
+          const chunks = await backend.getBatch(chunkKeys(manifest), options)
+          if (chunks.some((chunk) => !chunk)) return null
+          return new Blob(chunks as Array<ReadValue>, { type: manifest.type })
+        }),
+      )
+    },
+    deleteBatch: async (keys) => {
+      const manifests = await readManifests(backend, keys)
+      await backend.deleteBatch([
+        ...keys,
+        ...manifests.flatMap((manifest) => (manifest ? chunkKeys(manifest) : [])),
+      ])
+    },
+  }
+}
+
+// Stream a chunked file back one chunk at a time, erroring if the manifest or a chunk is missing
+export function readStream(
+  backend: StorageBackend,
+  path: string,
+  options?: StorageOptions,
+): ReadableStream<Uint8Array> {
+  let manifest: ChunkManifest | null = null
+  let index = 0
+
+  return new ReadableStream<Uint8Array>({
+    async start() {
+      manifest = (await readManifests(backend, [path], options))[0]
+      if (!manifest) throw new Error(`No chunk manifest for ${path}`)
+    },
+    async pull(controller) {
+      if (!manifest || index >= manifest.chunkCount) {
+        controller.close()
+        return
+      }
+      const [chunk] = await backend.getBatch([chunkKey(path, index)], options)
+      if (!chunk) throw new Error(`Missing chunk ${index} of ${path}`)
+      index++
+      controller.enqueue(await materializeValue(chunk))
+    },
+  })
+}
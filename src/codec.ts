@@ -0,0 +1,133 @@
+import type { StorageBackend, StoredFile } from './backends.ts'
+import { MANIFEST_TYPE } from './chunked.ts'
+import type { ReadValue } from './encoding.ts'
+import { storedMetadata } from './files.ts'
+
+// Formats CompressionStream supports everywhere
+export type Codec = 'gzip' | 'deflate'
+
+export const codecs: Array<Codec> = ['gzip', 'deflate']
+
+// Compress whole files before they're chunked, or each chunk record on its own
+export type CompressionScope = 'file' | 'chunk'
+
+// By default compressed bytes are kept whenever they're smaller at all
+export const DEFAULT_COMPRESSION_THRESHOLD = 1
+
+// Codec work done during one benchmark, on top of its storage work. Chunk manifests are
+// internal records, stored raw and left out.
+export type CompressionStats = {
+  // Wall time of the codec layer, whole batches being compressed or decompressed in parallel
+  compressDuration: number
+  decompressDuration: number
+  // Bytes handed to the codec layer, and what it passed on to the store for them
+  originalBytes: number
+  storedBytes: number
+  // Records stored compressed, and records kept raw because compressing didn't pay off
+  compressedCount: number
+  rawCount: number
+}
+
+export function emptyCompressionStats(): CompressionStats {
+  return {
+    compressDuration: 0,
+    decompressDuration: 0,
+    originalBytes: 0,
+    storedBytes: 0,
+    compressedCount: 0,
+    rawCount: 0,
+  }
+}
+
+// Stored bytes per original byte, below 1 when compression saved space
+export function compressionRatio(stats: CompressionStats): number | null {
+  return stats.originalBytes > 0 ? stats.storedBytes / stats.originalBytes : null
+}
+
+// Every record starts with one byte saying how the rest is stored
+const RAW = 0
+const CODEC_BYTES: Record<Codec, number> = { gzip: 1, deflate: 2 }
+
+function codecOf(byte: number): Codec | null {
+  return codecs.find((codec) => CODEC_BYTES[codec] === byte) ?? null
+}
+
+function pipe(blob: Blob, transform: CompressionStream | DecompressionStream): Promise<Blob> {
+  return new Response(blob.stream().pipeThrough(transform)).blob()
+}
+
+async function compressRecord(
+  stored: StoredFile,
+  codec: Codec,
+  threshold: number,
+  stats: CompressionStats,
+): Promise<StoredFile> {
+  const { file } = stored
+  if (file.type === MANIFEST_TYPE) {
+    return {
+      ...stored,
+      file: new File([new Uint8Array([RAW]), file], file.name, { type: file.type }),
+    }
+  }
+  const compressed = await pipe(file, new CompressionStream(codec))
+
+  // Keep the raw bytes when compressing didn't shrink the record enough
+  const useCompressed = compressed.size < file.size * threshold
+  const header = new Uint8Array([useCompressed ? CODEC_BYTES[codec] : RAW])
+  const payload = useCompressed ? compressed : file
+
+  stats.originalBytes += file.size
+  stats.storedBytes += payload.size
+  if (useCompressed) {
+    stats.compressedCount++
+  } else {
+    stats.rawCount++
+  }
+
+  return {
+    path: stored.path,
+    file: new File([header, payload], file.name, { type: file.type }),
+    // Metadata describes the original file, not what's stored for it
+    metadata: storedMetadata(stored),
+  }
+}
+
+async function decompressRecord(value: ReadValue | null): Promise<ReadValue | null> {
+  if (!value) return null
+  const blob = value instanceof Blob ? value : new Blob([value])
+  const [byte] = new Uint8Array(await blob.slice(0, 1).arrayBuffer())
+  const payload = blob.slice(1, blob.size, blob.type)
+  const codec = codecOf(byte)
+  if (byte === RAW || !codec) return payload
+  return pipe(payload, new DecompressionStream(codec))
+}
+
+// Wrap a backend so every record goes through the codec on the way in and out
+export function compressedBackend(
+  backend: StorageBackend,
+  codec: Codec,
+  threshold = DEFAULT_COMPRESSION_THRESHOLD,
+  stats: CompressionStats = emptyCompressionStats(),
+): StorageBackend {
+  return {
+    ...backend,
+    id: `${backend.id}-${codec}`,
+    title: `${backend.title} (${codec})`,
+    putBatch: async (files, options) => {
+      // Compress up front, backends encode before opening their transactions the same way
+      const start = performance.now()
+      const records = await Promise.all(
+        files.map((stored) => compressRecord(stored, codec, threshold, stats)),
+      )
+      stats.compressDuration += performance.now() - start
+      await backend.putBatch(records, options)
+    },
+    getBatch: async (keys, options) => {
+      const values = await backend.getBatch(keys, options)
+      const start = performance.now()
+      const records = await Promise.all(values.map(decompressRecord))
+      stats.decompressDuration += performance.now() - start
+      return records
+    },
+  }
+}
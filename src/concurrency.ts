@@ -0,0 +1,165 @@
+import { type IDBPDatabase, deleteDB, openDB } from 'idb'
+import type { StorageOptions, StoredFile } from './backends.ts'
+import { decodeValue, encodeValue, readValueSize } from './encoding.ts'
+
+// How the parallel lanes are laid out: N transactions on one store, one store per lane in one
+// database, one database per lane, or one worker per lane writing to the same store
+export type ConcurrencyLayout = 'transactions' | 'stores' | 'databases' | 'workers'
+
+export const concurrencyLayouts: Array<{ id: ConcurrencyLayout; title: string }> = [
+  { id: 'transactions', title: 'transactions on one store' },
+  { id: 'stores', title: 'object stores in one database' },
+  { id: 'databases', title: 'databases' },
+  { id: 'workers', title: 'workers on one store' },
+]
+
+export const DEFAULT_CONCURRENCY = 4
+const DB_PREFIX = 'filesDB_concurrency'
+const BATCH_SIZE = 500
+
+// Where one lane keeps its records
+export type LaneTarget = { dbName: string; storeName: string }
+
+export function laneTarget(layout: ConcurrencyLayout, lane: number): LaneTarget {
+  switch (layout) {
+    case 'stores':
+      return { dbName: `${DB_PREFIX}_${layout}`, storeName: `files_${lane}` }
+    case 'databases':
+      return { dbName: `${DB_PREFIX}_${layout}_${lane}`, storeName: 'files' }
+    default:
+      return { dbName: `${DB_PREFIX}_${layout}`, storeName: 'files' }
+  }
+}
+
+// Spread items round-robin over the lanes
+export function partition<T>(items: Array<T>, lanes: number): Array<Array<T>> {
+  return Array.from({ length: lanes }, (_, lane) =>
+    items.filter((_, index) => index % lanes === lane),
+  )
+}
+
+// Open a database with the given stores, the version is bumped when a store is missing
+export async function openLaneDatabase(
+  dbName: string,
+  storeNames: Array<string>,
+): Promise<IDBPDatabase> {
+  const db = await openDB(dbName)
+  const missing = storeNames.filter((name) => !db.objectStoreNames.contains(name))
+  if (missing.length === 0) return db
+
+  const version = db.version + 1
+  db.close()
+  return openDB(dbName, version, {
+    upgrade(database) {
+      for (const name of missing) {
+        database.createObjectStore(name)
+      }
+    },
+  })
+}
+
+// Open every database the layout's lanes use, grouped so lanes on one database share
+// a connection like an app would
+export async function openLayout(
+  layout: ConcurrencyLayout,
+  lanes: number,
+): Promise<Map<string, IDBPDatabase>> {
+  const stores = new Map<string, Array<string>>()
+  for (let lane = 0; lane < lanes; lane++) {
+    const { dbName, storeName } = laneTarget(layout, lane)
+    stores.set(dbName, [...new Set([...(stores.get(dbName) ?? []), storeName])])
+  }
+
+  const connections = new Map<string, IDBPDatabase>()
+  for (const [dbName, storeNames] of stores) {
+    connections.set(dbName, await openLaneDatabase(dbName, storeNames))
+  }
+  return connections
+}
+
+export function closeLayout(connections: Map<string, IDBPDatabase>): void {
+  for (const db of connections.values()) {
+    db.close()
+  }
+}
+
+// Write one lane's files a batch per transaction, one after the other
+export async function writeLane(
+  db: IDBPDatabase,
+  storeName: string,
+  files: Array<StoredFile>,
+  options: StorageOptions = {},
+): Promise<void> {
+  const batchSize = Math.max(options.batchSize ?? BATCH_SIZE, 1)
+  for (let i = 0; i < files.length; i += batchSize) {
+    const batch = files.slice(i, i + batchSize)
+    // Encode before opening the transaction, it would auto-commit while we await
+    const values = await Promise.all(batch.map(({ file }) => encodeValue(file, options.encoding)))
+    const tx = db.transaction(storeName, 'readwrite', {
+      durability: options.durability ?? 'strict',
+    })
+    batch.forEach((stored, index) => {
+      tx.store.put(values[index], stored.path)
+    })
+    await tx.done
+  }
+}
+
+// Read one lane's keys a batch per transaction, returning how many came back and their size
+export async function readLane(
+  db: IDBPDatabase,
+  storeName: string,
+  keys: Array<string>,
+  options: StorageOptions = {},
+): Promise<{ count: number; size: number }> {
+  const batchSize = Math.max(options.batchSize ?? BATCH_SIZE, 1)
+  let count = 0
+  let size = 0
+  for (let i = 0; i < keys.length; i += batchSize) {
+    const tx = db.transaction(storeName, 'readonly')
+    const values = await Promise.all(keys.slice(i, i + batchSize).map((key) => tx.store.get(key)))
+    await tx.done
+    for (const value of values.map(decodeValue)) {
+      if (!value) continue
+      count++
+      size += readValueSize(value)
+    }
+  }
+  return { count, size }
+}
+
+// Every key of the layout, per lane
+export async function laneKeys(
+  connections: Map<string, IDBPDatabase>,
+  layout: ConcurrencyLayout,
+  lanes: number,
+): Promise<Array<Array<string>>> {
+  if (layout === 'stores' || layout === 'databases') {
+    return Promise.all(
+      Array.from({ length: lanes }, async (_, lane) => {
+        const { dbName, storeName } = laneTarget(layout, lane)
+        return (await connections.get(dbName)!.getAllKeys(storeName)) as Array<string>
+      }),
+    )
+  }
+  // Lanes sharing a store split its keys between them
+  const { dbName, storeName } = laneTarget(layout, 0)
+  return partition((await connections.get(dbName)!.getAllKeys(storeName)) as Array<string>, lanes)
+}
+
+// Delete every database a layout has created, or every concurrency database without a layout
+export async function deleteLayouts(layout?: ConcurrencyLayout): Promise<void> {
+  const prefix = layout ? `${DB_PREFIX}_${layout}` : DB_PREFIX
+  const names = new Set(
+    concurrencyLayouts
+      .filter(({ id }) => !layout || id === layout)
+      .map(({ id }) => laneTarget(id, 0).dbName),
+  )
+  // databases() also finds the per-lane databases of earlier runs with a different N
+  for (const info of (await indexedDB.databases?.()) ?? []) {
+    if (info.name?.startsWith(prefix)) names.add(info.name)
+  }
+  for (const name of names) {
+    await deleteDB(name)
+  }
+}
@@ -0,0 +1,38 @@
+// Dedicated worker that writes one lane of the concurrent worker benchmark
+import type { IDBPDatabase } from 'idb'
+import type { StorageOptions, StoredFile } from './backends.ts'
+import { type LaneTarget, openLaneDatabase, writeLane } from './concurrency.ts'
+
+// Opening the lane's database comes first and is untimed, only the write is under the clock
+export type LaneRequest =
+  | { type: 'open'; target: LaneTarget }
+  | { type: 'write'; files: Array<StoredFile>; options: StorageOptions }
+
+export type LaneResponse = { type: 'ready' } | { type: 'done' } | { type: 'failed'; error: string }
+
+let lane: { db: IDBPDatabase; storeName: string } | null = null
+
+async function handle(request: LaneRequest): Promise<void> {
+  if (request.type === 'open') {
+    const { dbName, storeName } = request.target
+    lane = { db: await openLaneDatabase(dbName, [storeName]), storeName }
+    return
+  }
+  if (!lane) throw new Error('Lane database is not open')
+  try {
+    await writeLane(lane.db, lane.storeName, request.files, request.options)
+  } finally {
+    lane.db.close()
+    lane = null
+  }
+}
+
+self.onmessage = async (event: MessageEvent<LaneRequest>) => {
+  let response: LaneResponse = { type: event.data.type === 'open' ? 'ready' : 'done' }
+  try {
+    await handle(event.data)
+  } catch (error) {
+    response = { type: 'failed', error: String(error) }
+  }
+  self.postMessage(response)
+}
@@ -0,0 +1,54 @@
+import type { StorageOptions, StoredFile } from './backends.ts'
+import type { LaneTarget } from './concurrency.ts'
+import type { LaneRequest, LaneResponse } from './concurrency.worker.ts'
+
+// Answer the next message from the worker, terminating it on failure
+function request(worker: Worker, message: LaneRequest): Promise<void> {
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<LaneResponse>) => {
+      if (event.data.type === 'failed') {
+        worker.terminate()
+        reject(new Error(event.data.error))
+      } else {
+        resolve()
+      }
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(`Lane worker error: ${event.message}`))
+    }
+    worker.postMessage(message)
+  })
+}
+
+// Start a lane worker per target, resolving once all of them have loaded and opened
+// their lane's database
+export async function startLaneWorkers(targets: Array<LaneTarget>): Promise<Array<Worker>> {
+  const workers = targets.map(
+    () => new Worker(new URL('./concurrency.worker.ts', import.meta.url), { type: 'module' }),
+  )
+  try {
+    await Promise.all(
+      workers.map((worker, lane) => request(worker, { type: 'open', target: targets[lane] })),
+    )
+  } catch (error) {
+    for (const worker of workers) {
+      worker.terminate()
+    }
+    throw error
+  }
+  return workers
+}
+
+// Have a started worker write its lane, terminating it when it's done
+export async function runLaneWorker(
+  worker: Worker,
+  files: Array<StoredFile>,
+  options: StorageOptions,
+): Promise<void> {
+  try {
+    await request(worker, { type: 'write', files, options })
+  } finally {
+    worker.terminate()
+  }
+}
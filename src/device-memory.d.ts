@@ -0,0 +1,4 @@
+// Device Memory API, Chromium-only, so it's missing from the DOM lib this project compiles against
+interface Navigator {
+  readonly deviceMemory?: number
+}
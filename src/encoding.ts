@@ -0,0 +1,60 @@
+// How a file is turned into an IndexedDB value before it's put
+export type ValueEncoding = 'file' | 'blob' | 'arraybuffer' | 'record'
+
+export const valueEncodings: Array<{ id: ValueEncoding; title: string }> = [
+  { id: 'file', title: 'File' },
+  { id: 'blob', title: 'Blob' },
+  { id: 'arraybuffer', title: 'ArrayBuffer' },
+  { id: 'record', title: '{meta, bytes} record' },
+]
+
+// File metadata with the bytes inline, as an app would store a parsed upload
+export type EncodedRecord = {
+  meta: { name: string; type: string; lastModified: number; size: number }
+  bytes: Uint8Array
+}
+
+// What a read hands back: a lazy blob reference, or bytes that are already in memory
+export type ReadValue = Blob | Uint8Array
+
+// Reading bytes up front happens here, before any transaction is opened,
+// since awaiting inside one would let it auto-commit
+export async function encodeValue(file: File, encoding: ValueEncoding = 'file'): Promise<unknown> {
+  switch (encoding) {
+    case 'file':
+      return file
+    case 'blob':
+      return new Blob([file], { type: file.type })
+    case 'arraybuffer':
+      return file.arrayBuffer()
+    case 'record':
+      return {
+        meta: {
+          name: file.name,
+          type: file.type,
+          lastModified: file.lastModified,
+          size: file.size,
+        },
+        bytes: new Uint8Array(await file.arrayBuffer()),
+      } satisfies EncodedRecord
+  }
+}
+
+// Turn a stored value of any encoding back into something readable, null if unrecognised
+export function decodeValue(value: unknown): ReadValue | null {
+  if (value instanceof Blob || value instanceof Uint8Array) return value
+  if (value instanceof ArrayBuffer) return new Uint8Array(value)
+  if (value && typeof value === 'object' && (value as EncodedRecord).bytes instanceof Uint8Array) {
+    return (value as EncodedRecord).bytes
+  }
+  return null
+}
+
+export function readValueSize(value: ReadValue): number {
+  return value instanceof Blob ? value.size : value.byteLength
+}
+
+// Pull the contents into memory, which for lazy blobs is where the real read happens
+export async function materializeValue(value: ReadValue): Promise<Uint8Array> {
+  return value instanceof Blob ? new Uint8Array(await value.arrayBuffer()) : value
+}
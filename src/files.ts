@@ -1,3 +1,34 @@
+import type { FileMetadata, StoredFile } from './backends.ts'
+
+// One step of a directory traversal, paths are absolute like FileSystemEntry.fullPath
+export type SourceItem =
+  | { kind: 'file'; path: string; file: File }
+  | { kind: 'directory'; path: string }
+  | { kind: 'error'; path: string; error: string }
+
+// Benchmarks may walk their input more than once, so sources are factories
+export type FileSource = () => AsyncIterable<SourceItem>
+
+// Parent directory of an absolute path, '/' for top-level entries
+export function parentPath(path: string): string {
+  return path.slice(0, path.lastIndexOf('/')) || '/'
+}
+
+export function fileMetadata(path: string, file: File): FileMetadata {
+  return {
+    path,
+    size: file.size,
+    type: file.type,
+    lastModified: file.lastModified,
+    parent: parentPath(path),
+  }
+}
+
+// Metadata to record for a stored file, null when it shouldn't get any
+export function storedMetadata(stored: StoredFile): FileMetadata | null {
+  return stored.metadata === undefined ? fileMetadata(stored.path, stored.file) : stored.metadata
+}
+
 // Promise-based function to read directory entries
 export function readDirectoryEntries(dirEntry: any): Promise<Array<any>> {
   return new Promise((resolve, reject) => {
@@ -25,3 +56,89 @@ export function getFileFromEntry(entry: any): Promise<File> {
     entry.file(resolve, reject)
   })
 }
+
+// Walk legacy webkitGetAsEntry() entries breadth-first
+export async function* walkEntries(entries: Array<any>): AsyncGenerator<SourceItem> {
+  const queue = [...entries]
+
+  while (queue.length > 0) {
+    const entry = queue.shift()
+
+    if (entry.isFile) {
+      try {
+        yield { kind: 'file', path: entry.fullPath, file: await getFileFromEntry(entry) }
+      } catch (error) {
+        yield { kind: 'error', path: entry.fullPath, error: `Error processing file: ${error}` }
+      }
+    } else if (entry.isDirectory) {
+      yield { kind: 'directory', path: entry.fullPath }
+      try {
+        const dirEntries = await readDirectoryEntries(entry)
+        queue.push(...dirEntries)
+      } catch (error) {
+        yield { kind: 'error', path: entry.fullPath, error: `Error reading directory: ${error}` }
+      }
+    }
+  }
+}
+
+// Walk File System Access API handles breadth-first, these can be posted to workers
+export async function* walkHandles(handles: Array<FileSystemHandle>): AsyncGenerator<SourceItem> {
+  const queue = handles.map((handle) => ({ handle, path: `/${handle.name}` }))
+
+  while (queue.length > 0) {
+    const { handle, path } = queue.shift()!
+
+    if (handle.kind === 'file') {
+      try {
+        yield { kind: 'file', path, file: await (handle as FileSystemFileHandle).getFile() }
+      } catch (error) {
+        yield { kind: 'error', path, error: `Error processing file: ${error}` }
+      }
+    } else {
+      yield { kind: 'directory', path }
+      try {
+        const children: Array<{ handle: FileSystemHandle; path: string }> = []
+        for await (const [name, child] of (handle as FileSystemDirectoryHandle).entries()) {
+          children.push({ handle: child, path: `${path}/${name}` })
+        }
+        queue.push(...children)
+      } catch (error) {
+        yield { kind: 'error', path, error: `Error reading directory: ${error}` }
+      }
+    }
+  }
+}
+
+// Walk the flat file list of a folder <input webkitdirectory>, whose paths are relative to
+// the picked folder. Directories are derived from those paths, the first time they show up.
+export async function* walkFileList(files: ArrayLike<File>): AsyncGenerator<SourceItem> {
+  const seen = new Set<string>()
+
+  for (const file of Array.from(files)) {
+    const path = `/${file.webkitRelativePath || file.name}`
+    const parts = path.split('/').slice(1, -1)
+    for (let i = 1; i <= parts.length; i++) {
+      const directory = `/${parts.slice(0, i).join('/')}`
+      if (!seen.has(directory)) {
+        seen.add(directory)
+        yield { kind: 'directory', path: directory }
+      }
+    }
+    yield { kind: 'file', path, file }
+  }
+}
+
+// Replay an already collected traversal
+export async function* walkItems(items: Array<SourceItem>): AsyncGenerator<SourceItem> {
+  yield* items
+}
+
+// Run a traversal to completion, so the result can be replayed or posted to a worker
+export async function collectItems(source: FileSource): Promise<Array<SourceItem>> {
+  const items: Array<SourceItem> = []
+  for await (const item of source()) {
+    items.push(item)
+  }
+  return items
+}
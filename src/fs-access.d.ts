@@ -0,0 +1,30 @@
+// OPFS sync access handles are only exposed in dedicated workers, so they're
+// missing from the DOM lib this project compiles against
+interface FileSystemReadWriteOptions {
+  at?: number
+}
+
+interface FileSystemSyncAccessHandle {
+  close(): void
+  flush(): void
+  getSize(): number
+  read(buffer: AllowSharedBufferSource, options?: FileSystemReadWriteOptions): number
+  truncate(newSize: number): void
+  write(buffer: AllowSharedBufferSource, options?: FileSystemReadWriteOptions): number
+}
+
+interface FileSystemFileHandle {
+  createSyncAccessHandle(): Promise<FileSystemSyncAccessHandle>
+}
+
+// Chromium-only, lets a dropped directory be walked (and posted to a worker) as a handle
+interface DataTransferItem {
+  getAsFileSystemHandle?(): Promise<FileSystemHandle | null>
+}
+
+// File System Access API directory picker, Chromium-only
+interface Window {
+  showDirectoryPicker?(options?: {
+    mode?: 'read' | 'readwrite'
+  }): Promise<FileSystemDirectoryHandle>
+}
@@ -0,0 +1,210 @@
+import type { FileSource, SourceItem } from './files.ts'
+import { createRandom, formatBytes } from './utils.ts'
+
+export type SizeDistribution =
+  | { kind: 'fixed'; size: number }
+  | { kind: 'uniform'; min: number; max: number }
+  | { kind: 'lognormal'; median: number; sigma: number; max: number }
+
+// Everything needed to regenerate the exact same dataset on another machine
+export type DatasetSpec = {
+  seed: number
+  fileCount: number
+  size: SizeDistribution
+  // Directory levels below the root, files live in the deepest level
+  depth: number
+  // Subdirectories per directory
+  fanOut: number
+  content: 'compressible' | 'random'
+}
+
+export type DatasetPreset = {
+  id: string
+  title: string
+  spec: DatasetSpec
+}
+
+const KB = 1024
+const MB = 1024 * KB
+
+export const datasetPresets: Array<DatasetPreset> = [
+  {
+    id: 'tiny-10k',
+    title: '10k tiny files',
+    spec: {
+      seed: 1,
+      fileCount: 10_000,
+      size: { kind: 'lognormal', median: 2 * KB, sigma: 1, max: 64 * KB },
+      depth: 3,
+      fanOut: 8,
+      content: 'compressible',
+    },
+  },
+  {
+    id: 'small-1k',
+    title: '1k × 64 KB',
+    spec: {
+      seed: 2,
+      fileCount: 1_000,
+      size: { kind: 'fixed', size: 64 * KB },
+      depth: 2,
+      fanOut: 4,
+      content: 'random',
+    },
+  },
+  {
+    id: 'mixed-2k',
+    title: '2k mixed sizes',
+    spec: {
+      seed: 3,
+      fileCount: 2_000,
+      size: { kind: 'lognormal', median: 32 * KB, sigma: 2, max: 64 * MB },
+      depth: 3,
+      fanOut: 5,
+      content: 'random',
+    },
+  },
+  {
+    id: 'large-100',
+    title: '100 × 50 MB',
+    spec: {
+      seed: 4,
+      fileCount: 100,
+      size: { kind: 'fixed', size: 50 * MB },
+      depth: 1,
+      fanOut: 4,
+      content: 'random',
+    },
+  },
+]
+
+// Contents are sliced out of a small pool of shared chunks, so even multi-GB datasets only
+// hold a few MB of real bytes in memory
+const CHUNK_SIZE = 1 * MB
+const POOL_SIZE = 8
+
+const WORDS = [
+  'lorem',
+  'ipsum',
+  'dolor',
+  'sit',
+  'amet',
+  'const',
+  'function',
+  'return',
+  'import',
+  'export',
+  'value',
+  'index',
+  'storage',
+  'benchmark',
+  '{',
+  '}',
+  '\n',
+]
+
+function createChunkPool(content: DatasetSpec['content'], random: () => number): Array<Blob> {
+  const pool: Array<Blob> = []
+
+  for (let i = 0; i < POOL_SIZE; i++) {
+    if (content === 'random') {
+      const words = new Uint32Array(CHUNK_SIZE / 4)
+      for (let j = 0; j < words.length; j++) {
+        words[j] = random() * 4294967296
+      }
+      pool.push(new Blob([words]))
+    } else {
+      const parts: Array<string> = []
+      let length = 0
+      while (length < CHUNK_SIZE) {
+        const word = WORDS[Math.floor(random() * WORDS.length)]
+        parts.push(word, ' ')
+        length += word.length + 1
+      }
+      pool.push(new Blob([parts.join('').slice(0, CHUNK_SIZE)]))
+    }
+  }
+
+  return pool
+}
+
+function sampleSize(size: SizeDistribution, random: () => number): number {
+  switch (size.kind) {
+    case 'fixed':
+      return size.size
+    case 'uniform':
+      return Math.floor(size.min + random() * (size.max - size.min + 1))
+    case 'lognormal': {
+      // Box-Muller transform for a standard normal sample
+      const z = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+      return Math.min(size.max, Math.round(size.median * Math.exp(size.sigma * z)))
+    }
+  }
+}
+
+function createContent(size: number, pool: Array<Blob>, random: () => number): Array<Blob> {
+  const parts: Array<Blob> = []
+  let remaining = size
+
+  while (remaining > 0) {
+    const chunk = pool[Math.floor(random() * pool.length)]
+    const length = Math.min(remaining, CHUNK_SIZE)
+    const offset = Math.floor(random() * (CHUNK_SIZE - length + 1))
+    parts.push(chunk.slice(offset, offset + length))
+    remaining -= length
+  }
+
+  return parts
+}
+
+// Generate the dataset as a traversal: directories breadth-first, then the files
+export async function* generateDataset(spec: DatasetSpec): AsyncGenerator<SourceItem> {
+  const random = createRandom(spec.seed)
+  const pool = createChunkPool(spec.content, random)
+  const extension = spec.content === 'random' ? 'bin' : 'txt'
+  const type = spec.content === 'random' ? 'application/octet-stream' : 'text/plain'
+  // Fixed timestamp so metadata is reproducible as well
+  const lastModified = Date.UTC(2024, 0, 1)
+
+  let level = ['/synthetic']
+  yield { kind: 'directory', path: '/synthetic' }
+  for (let depth = 0; depth < spec.depth; depth++) {
+    const next: Array<string> = []
+    for (const parent of level) {
+      for (let i = 0; i < spec.fanOut; i++) {
+        const path = `${parent}/dir-${i}`
+        next.push(path)
+        yield { kind: 'directory', path }
+      }
+    }
+    level = next
+  }
+
+  for (let i = 0; i < spec.fileCount; i++) {
+    const parent = level[Math.floor(random() * level.length)]
+    const name = `file-${String(i).padStart(6, '0')}.${extension}`
+    const parts = createContent(sampleSize(spec.size, random), pool, random)
+    yield {
+      kind: 'file',
+      path: `${parent}/${name}`,
+      file: new File(parts, name, { type, lastModified }),
+    }
+  }
+}
+
+export function datasetSource(spec: DatasetSpec): FileSource {
+  return () => generateDataset(spec)
+}
+
+// Short human-readable summary of a spec
+export function describeDataset(spec: DatasetSpec): string {
+  const size =
+    spec.size.kind === 'fixed'
+      ? formatBytes(spec.size.size)
+      : spec.size.kind === 'uniform'
+        ? `${formatBytes(spec.size.min)}–${formatBytes(spec.size.max)}`
+        : `log-normal, median ${formatBytes(spec.size.median)}`
+  return `${spec.fileCount.toLocaleString()} files (${size}), depth ${spec.depth} × fan-out ${
+    spec.fanOut
+  }, ${spec.content} content, seed ${spec.seed}`
+}
@@ -0,0 +1,229 @@
+import type { StorageOptions } from './backends.ts'
+import { codecs } from './codec.ts'
+import { valueEncodings } from './encoding.ts'
+import { type DatasetSpec, datasetPresets } from './generator.ts'
+import { type RunPlan, defaultPlan, planFromIds, validatePlan } from './plan.ts'
+import { type BenchmarkReport, reportFilename, reportToCSV, reportToJSON } from './report.ts'
+import { type RunConfig, defaultRunConfig } from './runner.ts'
+import { downloadFile } from './utils.ts'
+
+// Format of the #benchmark-report element, download also saves the JSON report as a file
+export type HeadlessOutput = 'json' | 'csv' | 'download'
+
+// An unattended run, picked with URL parameters:
+//   ?auto=1&dataset=small-1k&benchmarks=idb-write,idb-read&iterations=3&output=json
+// dataset is a preset id, spec a full JSON DatasetSpec, files and seed override either.
+// benchmarks picks benchmark ids, or plan gives a full JSON RunPlan.
+// warmup, worker, encoding, durability, batchSize, materialize, verify and compression
+// are optional.
+export type HeadlessConfig = {
+  spec: DatasetSpec
+  plan: RunPlan
+  runConfig: RunConfig
+  useWorker: boolean
+  output: HeadlessOutput
+}
+
+// Published on window and in the #benchmark-report element for scripts to poll
+export type HeadlessState =
+  | { status: 'running' }
+  | { status: 'done'; report: BenchmarkReport }
+  | { status: 'error'; error: string }
+
+declare global {
+  interface Window {
+    benchmarkState?: HeadlessState
+    benchmarkReport?: BenchmarkReport | null
+  }
+}
+
+export const REPORT_ELEMENT_ID = 'benchmark-report'
+
+function intParam(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name)
+  if (value === null) return undefined
+  const number = Number(value)
+  if (!Number.isInteger(number) || number < 0) {
+    throw new Error(`Parameter ${name} must be a non-negative integer, got "${value}"`)
+  }
+  return number
+}
+
+function flagParam(params: URLSearchParams, name: string): boolean {
+  return ['1', 'true', 'yes'].includes(params.get(name) ?? '')
+}
+
+function oneOf<T extends string>(
+  params: URLSearchParams,
+  name: string,
+  allowed: ReadonlyArray<T>,
+): T | undefined {
+  const value = params.get(name)
+  if (value === null) return undefined
+  if (!allowed.includes(value as T)) {
+    throw new Error(`Parameter ${name} must be one of ${allowed.join(', ')}, got "${value}"`)
+  }
+  return value as T
+}
+
+function isCount(value: unknown, min = 0): value is number {
+  return Number.isInteger(value) && (value as number) >= min
+}
+
+function isSize(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+// Why a spec given as JSON can't generate a dataset, null when it's fine
+function invalidSpec(spec: any): string | null {
+  if (!spec || typeof spec !== 'object') return 'not an object'
+  if (!isCount(spec.seed)) return 'seed is not a non-negative integer'
+  if (!isCount(spec.fileCount)) return 'fileCount is not a non-negative integer'
+  if (!isCount(spec.depth)) return 'depth is not a non-negative integer'
+  if (!isCount(spec.fanOut, 1)) return 'fanOut is not a positive integer'
+  if (spec.content !== 'compressible' && spec.content !== 'random') {
+    return 'content must be compressible or random'
+  }
+
+  const { size } = spec
+  switch (size?.kind) {
+    case 'fixed':
+      return isSize(size.size) ? null : 'size.size is not a size'
+    case 'uniform':
+      return isSize(size.min) && isSize(size.max) && size.min <= size.max
+        ? null
+        : 'size.min and size.max are not sizes with min <= max'
+    case 'lognormal':
+      return isSize(size.median) && isSize(size.sigma) && isSize(size.max)
+        ? null
+        : 'size.median, size.sigma and size.max are not all sizes'
+    default:
+      return 'size.kind must be fixed, uniform or lognormal'
+  }
+}
+
+function datasetFromParams(params: URLSearchParams): DatasetSpec {
+  const specParam = params.get('spec')
+  const presetId = params.get('dataset') ?? datasetPresets[0].id
+  let spec: DatasetSpec
+
+  if (specParam) {
+    try {
+      spec = JSON.parse(specParam)
+    } catch (error) {
+      throw new Error(`Parameter spec is not valid JSON: ${error}`)
+    }
+    const problem = invalidSpec(spec)
+    if (problem) throw new Error(`Parameter spec is not a dataset spec: ${problem}`)
+  } else {
+    const preset = datasetPresets.find((preset) => preset.id === presetId)
+    if (!preset) {
+      throw new Error(
+        `Unknown dataset "${presetId}", expected one of ${datasetPresets
+          .map((preset) => preset.id)
+          .join(', ')}`,
+      )
+    }
+    spec = preset.spec
+  }
+
+  const fileCount = intParam(params, 'files')
+  const seed = intParam(params, 'seed')
+  return {
+    ...spec,
+    ...(fileCount !== undefined && { fileCount }),
+    ...(seed !== undefined && { seed }),
+  }
+}
+
+function planFromParams(params: URLSearchParams): RunPlan {
+  const planParam = params.get('plan')
+  if (planParam) {
+    let plan: RunPlan
+    try {
+      plan = JSON.parse(planParam)
+    } catch (error) {
+      throw new Error(`Parameter plan is not valid JSON: ${error}`)
+    }
+    validatePlan(plan)
+    return plan
+  }
+
+  const requested = params.get('benchmarks')
+  if (!requested) return defaultPlan()
+  const benchmarkIds = requested
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+  const knownIds = defaultPlan().steps.map((step) => step.benchmarkId)
+  const unknown = benchmarkIds.filter((id) => !knownIds.includes(id))
+  if (unknown.length > 0) throw new Error(`Unknown benchmark ids: ${unknown.join(', ')}`)
+  return planFromIds(benchmarkIds)
+}
+
+// The headless run the URL asks for, null without ?auto=1. Throws on invalid parameters.
+export function parseHeadlessParams(search: string): HeadlessConfig | null {
+  const params = new URLSearchParams(search)
+  if (!flagParam(params, 'auto')) return null
+
+  const spec = datasetFromParams(params)
+
+  const plan = planFromParams(params)
+
+  const storage: StorageOptions = {
+    encoding: oneOf(
+      params,
+      'encoding',
+      valueEncodings.map((encoding) => encoding.id),
+    ),
+    durability: oneOf(params, 'durability', ['default', 'strict', 'relaxed']),
+    batchSize: intParam(params, 'batchSize'),
+    materialize: flagParam(params, 'materialize') || undefined,
+    verify: flagParam(params, 'verify') || undefined,
+    compression: oneOf(params, 'compression', codecs),
+  }
+
+  return {
+    spec,
+    plan,
+    runConfig: {
+      warmupIterations: intParam(params, 'warmup') ?? defaultRunConfig.warmupIterations,
+      iterations: Math.max(intParam(params, 'iterations') ?? defaultRunConfig.iterations, 1),
+      // Unset options are left out so reports only list what was asked for
+      storage: Object.fromEntries(
+        Object.entries(storage).filter(([, value]) => value !== undefined),
+      ),
+    },
+    useWorker: flagParam(params, 'worker'),
+    output: oneOf(params, 'output', ['json', 'csv', 'download'] as const) ?? 'json',
+  }
+}
+
+// Expose the state on window and in the report element, whose data-status scripts can wait on
+export function publishHeadlessState(state: HeadlessState, output: HeadlessOutput = 'json'): void {
+  window.benchmarkState = state
+  if (state.status === 'done') {
+    window.benchmarkReport = state.report
+  }
+
+  let element = document.getElementById(REPORT_ELEMENT_ID)
+  if (!element) {
+    element = document.createElement('pre')
+    element.id = REPORT_ELEMENT_ID
+    element.hidden = true
+    document.body.append(element)
+  }
+  element.dataset.status = state.status
+
+  if (state.status === 'error') {
+    element.textContent = state.error
+  } else if (state.status === 'done') {
+    const json = reportToJSON(state.report)
+    element.textContent = output === 'csv' ? reportToCSV(state.report) : json
+    if (output === 'download') {
+      downloadFile(reportFilename(state.report, 'json'), json, 'application/json')
+    }
+  } else {
+    element.textContent = ''
+  }
+}
@@ -0,0 +1,73 @@
+import { type DBSchema, type IDBPDatabase, openDB } from 'idb'
+import type { RunPlan } from './plan.ts'
+import type { BenchmarkReport } from './report.ts'
+
+// Completed runs and saved run plans, kept in their own database that benchmark cleanup
+// never deletes
+export type HistoryRun = BenchmarkReport & { id: number }
+
+interface HistoryDB extends DBSchema {
+  runs: {
+    key: number
+    value: HistoryRun
+  }
+  plans: {
+    key: string
+    value: RunPlan
+  }
+}
+
+export const HISTORY_DB_NAME = 'benchmarkHistory'
+const STORE_NAME = 'runs'
+const PLAN_STORE_NAME = 'plans'
+
+let db: IDBPDatabase<HistoryDB> | null = null
+
+async function openHistory(): Promise<IDBPDatabase<HistoryDB>> {
+  db ??= await openDB<HistoryDB>(HISTORY_DB_NAME, 2, {
+    upgrade(database, oldVersion) {
+      if (oldVersion < 1) {
+        database.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true })
+      }
+      if (oldVersion < 2) {
+        database.createObjectStore(PLAN_STORE_NAME, { keyPath: 'name' })
+      }
+    },
+  })
+  return db
+}
+
+// Save a completed run and return its id
+export async function saveRun(report: BenchmarkReport): Promise<number> {
+  const history = await openHistory()
+  // The id is generated by the store's key generator
+  return history.add(STORE_NAME, report as HistoryRun)
+}
+
+// Every saved run, newest first
+export async function listRuns(): Promise<Array<HistoryRun>> {
+  const history = await openHistory()
+  return (await history.getAll(STORE_NAME)).reverse()
+}
+
+export async function deleteRun(id: number): Promise<void> {
+  const history = await openHistory()
+  await history.delete(STORE_NAME, id)
+}
+
+// Save a plan, replacing any saved under the same name
+export async function savePlan(plan: RunPlan): Promise<void> {
+  const history = await openHistory()
+  await history.put(PLAN_STORE_NAME, plan)
+}
+
+// Every saved plan, by name
+export async function listPlans(): Promise<Array<RunPlan>> {
+  const history = await openHistory()
+  return history.getAll(PLAN_STORE_NAME)
+}
+
+export async function deletePlan(name: string): Promise<void> {
+  const history = await openHistory()
+  await history.delete(PLAN_STORE_NAME, name)
+}
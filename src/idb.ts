@@ -1,10 +1,27 @@
 import { type DBSchema, type IDBPDatabase, deleteDB as deleteDB_, openDB } from 'idb' // Import IDBPObjectStore if needed
+import {
+  type FileMetadata,
+  type StorageBackend,
+  type StorageOptions,
+  type StoredFile,
+  transactionBatches,
+  transactionSize,
+} from './backends.ts'
+import { type EncodedRecord, decodeValue, encodeValue } from './encoding.ts'
+import { storedMetadata } from './files.ts'
+
+// Any of the value encodings
+type FileValue = File | Blob | ArrayBuffer | EncodedRecord
 
 // Define the database schema
 interface FilesDB extends DBSchema {
   files: {
     key: string // Key is defined as string
-    value: File
+    value: FileValue
+  }
+  meta: {
+    key: string
+    value: FileMetadata
   }
 }
 
@@ -12,17 +29,27 @@ interface FilesDB extends DBSchema {
 let db: IDBPDatabase<FilesDB> | null = null
 export const DB_NAME = 'filesDB_idb'
 export const STORE_NAME = 'files'
+export const META_STORE_NAME = 'meta'
 
 export const BATCH_SIZE = 500
 
 // Initialize IDB
 export async function initIDB(): Promise<IDBPDatabase<FilesDB>> {
-  db = await openDB<FilesDB>(DB_NAME, 1, {
+  db = await openDB<FilesDB>(DB_NAME, 2, {
     upgrade(database) {
       if (!database.objectStoreNames.contains(STORE_NAME)) {
         database.createObjectStore(STORE_NAME)
         console.log('IDB Object store created')
       }
+      if (!database.objectStoreNames.contains(META_STORE_NAME)) {
+        database.createObjectStore(META_STORE_NAME, { keyPath: 'path' })
+        console.log('IDB metadata store created')
+      }
+    },
+    // Another context (e.g. the benchmark worker) is deleting or upgrading the database,
+    // let it through instead of blocking it forever. The next init reopens.
+    blocking() {
+      closeDB()
     },
   })
 
@@ -30,58 +57,74 @@ export async function initIDB(): Promise<IDBPDatabase<FilesDB>> {
   return db
 }
 
-// Batch save files to IDB using a single transaction for multiple files
-export async function batchSaveToIDB(files: Array<File>): Promise<void> {
+// Batch save files and their metadata to IDB using a single transaction for multiple files
+export async function batchSaveToIDB(
+  files: Array<StoredFile>,
+  options: StorageOptions = {},
+): Promise<void> {
   if (!db || files.length === 0) return
 
-  for (let i = 0; i < files.length; i += BATCH_SIZE) {
-    const batchFiles = files.slice(i, i + BATCH_SIZE)
+  const batches = transactionBatches(files, options, BATCH_SIZE)
+  for (const [batchIndex, batchFiles] of batches.entries()) {
+    // Encode before opening the transaction, it would auto-commit while we await
+    const values = await Promise.all(
+      batchFiles.map(({ file }) => encodeValue(file, options.encoding) as Promise<FileValue>),
+    )
     // console.log(
-    //   `Processing batch ${Math.floor(i / BATCH_SIZE) + 1}: saving ${batchFiles.length} files.`,
+    //   `Processing batch ${batchIndex + 1}: saving ${batchFiles.length} files.`,
     // )
 
     // Start a new transaction for this batch
-    // Using 'strict' durability for better data guarantees, though potentially slower
-    const tx = db.transaction(STORE_NAME, 'readwrite', { durability: 'strict' })
+    // Defaulting to 'strict' durability for better data guarantees, though potentially slower
+    const tx = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite', {
+      durability: options.durability ?? 'strict',
+    })
     const store = tx.objectStore(STORE_NAME)
+    const metaStore = tx.objectStore(META_STORE_NAME)
 
     // Add all files in this batch within the transaction
     // No need for Promise.all() here; idb handles requests within the transaction scope.
     // The tx.done promise ensures all operations complete.
-    for (const file of batchFiles) {
-      const key = `file-${file.name}` // Creating string keys
-      store.put(file, key) // Initiate the put operation
-    }
+    batchFiles.forEach((stored, index) => {
+      store.put(values[index], stored.path) // Initiate the put operation, keyed by full path
+      const metadata = storedMetadata(stored)
+      if (metadata) metaStore.put(metadata)
+    })
 
     // Wait for the transaction for this batch to complete
     try {
       await tx.done
-      // console.log(`Batch ${Math.floor(i / BATCH_SIZE) + 1} saved successfully.`)
+      // console.log(`Batch ${batchIndex + 1} saved successfully.`)
     } catch (error) {
-      console.error(`Error saving batch ${Math.floor(i / BATCH_SIZE) + 1}:`, error)
+      console.error(`Error saving batch ${batchIndex + 1}:`, error)
       // Decide error handling strategy: rethrow, log, continue?
       // Rethrowing will stop the entire batch save process on the first failed batch.
-      throw new Error(`Failed to save batch starting at index ${i}: ${error}`)
+      throw new Error(`Failed to save batch ${batchIndex + 1}: ${error}`)
     }
   }
 }
 
 // Get all keys from IDB store
-export async function getAllKeys(): Promise<Array<IDBValidKey>> {
-  // Returns general type
+export async function getAllKeys(): Promise<Array<string>> {
   if (!db) return []
   return db.getAllKeys(STORE_NAME)
 }
 
-// Read files in batches using a single transaction per batch
+// Get every metadata record
+export async function getAllMetadata(): Promise<Array<FileMetadata>> {
+  if (!db) return []
+  return db.getAll(META_STORE_NAME)
+}
+
+// Read files in batches using a single transaction per batch,
+// results line up with keys and are null for missing records
 export async function batchReadFromIDB(
   keys: Array<IDBValidKey>, // Accepts general type
   BATCH_SIZE: number,
-): Promise<Array<File>> {
-  // <-- Make return type more specific if possible (File)
+): Promise<Array<FileValue | null>> {
   if (!db || keys.length === 0) return []
 
-  const results: Array<File> = [] // <-- Use File[] if sure
+  const results: Array<FileValue | null> = []
 
   // Process keys in batches
   for (let i = 0; i < keys.length; i += BATCH_SIZE) {
@@ -107,9 +150,8 @@ export async function batchReadFromIDB(
     // Wait for all get operations to complete
     const batchResults = await Promise.all(getPromises)
 
-    // Filter out undefined/null results and add to our results array
-    // Also assert the type is File if you are confident
-    results.push(...batchResults.filter((result): result is File => !!result))
+    // Keep missing results as null so they stay aligned with their keys
+    results.push(...batchResults.map((result) => result ?? null))
 
     // Wait for the transaction to complete
     await tx.done
@@ -118,6 +160,64 @@ export async function batchReadFromIDB(
   return results
 }
 
+// Read one record in its own transaction
+export async function readOneFromIDB(key: string): Promise<FileValue | null> {
+  if (!db) return null
+  return (await db.get(STORE_NAME, key)) ?? null
+}
+
+// Read up to count records of the range in key order with a single getAll request
+export async function getAllFromIDB(
+  range: IDBKeyRange | null,
+  count?: number,
+): Promise<Array<FileValue>> {
+  if (!db) return []
+  return db.getAll(STORE_NAME, range, count)
+}
+
+// Walk the range with a cursor, calling onValue as each record arrives
+export async function iterateIDB(
+  range: IDBKeyRange | null,
+  onValue: (value: FileValue) => void,
+): Promise<void> {
+  if (!db) return
+
+  const tx = db.transaction(STORE_NAME, 'readonly')
+  let cursor = await tx.store.openCursor(range)
+  while (cursor) {
+    onValue(cursor.value)
+    cursor = await cursor.continue()
+  }
+  await tx.done
+}
+
+// Batch delete files and their metadata from IDB using a single transaction per batch
+export async function batchDeleteFromIDB(keys: Array<string>): Promise<void> {
+  if (!db || keys.length === 0) return
+
+  for (let i = 0; i < keys.length; i += BATCH_SIZE) {
+    const tx = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite', {
+      durability: 'strict',
+    })
+    const store = tx.objectStore(STORE_NAME)
+    const metaStore = tx.objectStore(META_STORE_NAME)
+
+    for (const key of keys.slice(i, i + BATCH_SIZE)) {
+      store.delete(key)
+      metaStore.delete(key)
+    }
+
+    await tx.done
+  }
+}
+
+// Remove every record from both stores, keeping the database
+export async function clearIDB(): Promise<void> {
+  if (!db) return
+  await db.clear(STORE_NAME)
+  await db.clear(META_STORE_NAME)
+}
+
 // Close the database connection
 export function closeDB(): void {
   if (db) {
@@ -131,3 +231,29 @@ export async function deleteDB(): Promise<void> {
   closeDB()
   await deleteDB_(DB_NAME)
 }
+
+export const idbBackend: StorageBackend = {
+  id: 'idb',
+  title: 'IDB',
+  batchSize: BATCH_SIZE,
+  transactional: true,
+  init: async () => {
+    if (!db) await initIDB()
+  },
+  putBatch: batchSaveToIDB,
+  listKeys: getAllKeys,
+  listMetadata: getAllMetadata,
+  getBatch: async (keys, options = {}) =>
+    (await batchReadFromIDB(keys, transactionSize(options, keys.length, BATCH_SIZE))).map(
+      decodeValue,
+    ),
+  deleteBatch: batchDeleteFromIDB,
+  clear: clearIDB,
+  close: closeDB,
+  destroy: deleteDB,
+  access: {
+    getOne: async (key) => decodeValue(await readOneFromIDB(key)),
+    getAll: async (range, count) => (await getAllFromIDB(range, count)).map(decodeValue),
+    iterate: (range, onValue) => iterateIDB(range, (value) => onValue(decodeValue(value))),
+  },
+}
@@ -1,14 +1,26 @@
+import {
+  type FileMetadata,
+  type StorageBackend,
+  type StorageOptions,
+  type StoredFile,
+  transactionBatches,
+  transactionSize,
+} from './backends.ts'
+import { decodeValue, encodeValue } from './encoding.ts'
+import { storedMetadata } from './files.ts'
+
 // Database variables
 let db: IDBDatabase | null = null
 export const DB_NAME = 'filesDB_indexeddb'
 export const STORE_NAME = 'files'
+export const META_STORE_NAME = 'meta'
 
 export const BATCH_SIZE = 500
 
 // Initialize IndexedDB
 export function initIndexedDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 1)
+    const request = indexedDB.open(DB_NAME, 2)
 
     request.onerror = (event) => {
       console.error('IndexedDB error:', event)
@@ -17,6 +29,9 @@ export function initIndexedDB(): Promise<IDBDatabase> {
 
     request.onsuccess = (event) => {
       db = (event.target as IDBOpenDBRequest).result
+      // Another context (e.g. the benchmark worker) is deleting or upgrading the database,
+      // let it through instead of blocking it forever. The next init reopens.
+      db.onversionchange = () => closeDB()
       console.log('IndexedDB initialized successfully')
       resolve(db)
     }
@@ -28,17 +43,42 @@ export function initIndexedDB(): Promise<IDBDatabase> {
         database.createObjectStore(STORE_NAME)
         console.log('IndexedDB Object store created')
       }
+      if (!database.objectStoreNames.contains(META_STORE_NAME)) {
+        database.createObjectStore(META_STORE_NAME, { keyPath: 'path' })
+        console.log('IndexedDB metadata store created')
+      }
     }
   })
 }
 
-// Batch save files to IndexedDB using a single transaction for multiple files
-export async function batchSaveToIndexedDB(files: Array<File>): Promise<void> {
+// Batch save files and their metadata to IndexedDB, by default using a single transaction
+// for all files, or one per options.batchSize files
+export async function batchSaveToIndexedDB(
+  files: Array<StoredFile>,
+  options: StorageOptions = {},
+): Promise<void> {
   if (!db || files.length === 0) return
 
+  for (const batchFiles of transactionBatches(files, options, files.length)) {
+    // Encode before opening the transaction, it would auto-commit while we await
+    const values = await Promise.all(
+      batchFiles.map(({ file }) => encodeValue(file, options.encoding)),
+    )
+    await saveTransaction(batchFiles, values, options.durability ?? 'strict')
+  }
+}
+
+function saveTransaction(
+  files: Array<StoredFile>,
+  values: Array<unknown>,
+  durability: IDBTransactionDurability,
+): Promise<void> {
   return new Promise<void>((resolve, reject) => {
-    const transaction = db!.transaction([STORE_NAME], 'readwrite', { durability: 'strict' })
+    const transaction = db!.transaction([STORE_NAME, META_STORE_NAME], 'readwrite', {
+      durability,
+    })
     const store = transaction.objectStore(STORE_NAME)
+    const metaStore = transaction.objectStore(META_STORE_NAME)
 
     transaction.oncomplete = () => resolve()
     transaction.onerror = (event) => {
@@ -46,25 +86,27 @@ export async function batchSaveToIndexedDB(files: Array<File>): Promise<void> {
       reject(event)
     }
 
-    // Add all files in one transaction
-    for (const file of files) {
-      const key = `file-${file.name}`
-      store.put(file, key)
-    }
+    // Add all files in one transaction, keyed by their full path
+    files.forEach((stored, index) => {
+      store.put(values[index], stored.path)
+      const metadata = storedMetadata(stored)
+      if (metadata) metaStore.put(metadata)
+    })
   })
 }
 
 // Get all keys from IndexedDB store
-export async function getAllKeys(): Promise<Array<IDBValidKey>> {
+export async function getAllKeys(): Promise<Array<string>> {
   if (!db) return []
 
-  return new Promise<Array<IDBValidKey>>((resolve, reject) => {
+  return new Promise<Array<string>>((resolve, reject) => {
     const transaction = db!.transaction([STORE_NAME], 'readonly')
     const store = transaction.objectStore(STORE_NAME)
     const request = store.getAllKeys()
 
     request.onsuccess = () => {
-      resolve(request.result)
+      // Keys are always written as strings
+      resolve(request.result as Array<string>)
     }
 
     request.onerror = (event) => {
@@ -74,7 +116,27 @@ export async function getAllKeys(): Promise<Array<IDBValidKey>> {
   })
 }
 
-// Read files in batches using a single transaction per batch
+// Get every metadata record
+export async function getAllMetadata(): Promise<Array<FileMetadata>> {
+  if (!db) return []
+
+  return new Promise<Array<FileMetadata>>((resolve, reject) => {
+    const transaction = db!.transaction([META_STORE_NAME], 'readonly')
+    const request = transaction.objectStore(META_STORE_NAME).getAll()
+
+    request.onsuccess = () => {
+      resolve(request.result)
+    }
+
+    request.onerror = (event) => {
+      console.error('Error getting metadata:', event)
+      reject(event)
+    }
+  })
+}
+
+// Read files in batches using a single transaction per batch,
+// results line up with keys and are null for missing records
 export async function batchReadFromIndexedDB(
   keys: Array<IDBValidKey>,
   batchSize: number,
@@ -91,7 +153,7 @@ export async function batchReadFromIndexedDB(
     const batchResults = await new Promise<Array<any>>((resolve, reject) => {
       const transaction = db!.transaction([STORE_NAME], 'readonly')
       const store = transaction.objectStore(STORE_NAME)
-      const batchData: Array<any> = []
+      const batchData: Array<any> = new Array(batchKeys.length).fill(null)
 
       transaction.oncomplete = () => {
         resolve(batchData)
@@ -103,15 +165,15 @@ export async function batchReadFromIndexedDB(
       }
 
       // Request each key in the same transaction
-      for (const key of batchKeys) {
+      batchKeys.forEach((key, index) => {
         const request = store.get(key)
 
         request.onsuccess = () => {
           if (request.result) {
-            batchData.push(request.result)
+            batchData[index] = request.result
           }
         }
-      }
+      })
     })
 
     results.push(...batchResults)
@@ -120,6 +182,111 @@ export async function batchReadFromIndexedDB(
   return results
 }
 
+// Read one record in its own transaction
+export function readOneFromIndexedDB(key: IDBValidKey): Promise<unknown> {
+  if (!db) return Promise.resolve(null)
+
+  return new Promise((resolve, reject) => {
+    const transaction = db!.transaction([STORE_NAME], 'readonly')
+    const request = transaction.objectStore(STORE_NAME).get(key)
+
+    request.onsuccess = () => resolve(request.result ?? null)
+    request.onerror = (event) => {
+      console.error('Error reading record:', event)
+      reject(event)
+    }
+  })
+}
+
+// Read up to count records of the range in key order with a single getAll request
+export function getAllFromIndexedDB(
+  range: IDBKeyRange | null,
+  count?: number,
+): Promise<Array<unknown>> {
+  if (!db) return Promise.resolve([])
+
+  return new Promise((resolve, reject) => {
+    const transaction = db!.transaction([STORE_NAME], 'readonly')
+    const request = transaction.objectStore(STORE_NAME).getAll(range, count)
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = (event) => {
+      console.error('Error reading records:', event)
+      reject(event)
+    }
+  })
+}
+
+// Walk the range with a cursor, calling onValue as each record arrives
+export function iterateIndexedDB(
+  range: IDBKeyRange | null,
+  onValue: (value: unknown) => void,
+): Promise<void> {
+  if (!db) return Promise.resolve()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db!.transaction([STORE_NAME], 'readonly')
+    const request = transaction.objectStore(STORE_NAME).openCursor(range)
+
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) {
+        resolve()
+        return
+      }
+      onValue(cursor.value)
+      cursor.continue()
+    }
+    request.onerror = (event) => {
+      console.error('Error iterating records:', event)
+      reject(event)
+    }
+  })
+}
+
+// Batch delete files and their metadata from IndexedDB using a single transaction
+export async function batchDeleteFromIndexedDB(keys: Array<IDBValidKey>): Promise<void> {
+  if (!db || keys.length === 0) return
+
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db!.transaction([STORE_NAME, META_STORE_NAME], 'readwrite', {
+      durability: 'strict',
+    })
+    const store = transaction.objectStore(STORE_NAME)
+    const metaStore = transaction.objectStore(META_STORE_NAME)
+
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = (event) => {
+      console.error('Transaction error:', event)
+      reject(event)
+    }
+
+    for (const key of keys) {
+      store.delete(key)
+      metaStore.delete(key)
+    }
+  })
+}
+
+// Remove every record from both stores, keeping the database
+export async function clearIndexedDB(): Promise<void> {
+  if (!db) return
+
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db!.transaction([STORE_NAME, META_STORE_NAME], 'readwrite', {
+      durability: 'strict',
+    })
+    transaction.objectStore(STORE_NAME).clear()
+    transaction.objectStore(META_STORE_NAME).clear()
+
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = (event) => {
+      console.error('Transaction error:', event)
+      reject(event)
+    }
+  })
+}
+
 // Close the database connection
 export function closeDB(): void {
   if (db) {
@@ -137,3 +304,29 @@ export function deleteDB(): Promise<void> {
     request.onerror = (event) => reject(event)
   })
 }
+
+export const indexedDBBackend: StorageBackend = {
+  id: 'indexeddb',
+  title: 'IndexedDB',
+  batchSize: BATCH_SIZE,
+  transactional: true,
+  init: async () => {
+    if (!db) await initIndexedDB()
+  },
+  putBatch: batchSaveToIndexedDB,
+  listKeys: getAllKeys,
+  listMetadata: getAllMetadata,
+  getBatch: async (keys, options = {}) =>
+    (await batchReadFromIndexedDB(keys, transactionSize(options, keys.length, BATCH_SIZE))).map(
+      decodeValue,
+    ),
+  deleteBatch: batchDeleteFromIndexedDB,
+  clear: clearIndexedDB,
+  close: closeDB,
+  destroy: deleteDB,
+  access: {
+    getOne: async (key) => decodeValue(await readOneFromIndexedDB(key)),
+    getAll: async (range, count) => (await getAllFromIndexedDB(range, count)).map(decodeValue),
+    iterate: (range, onValue) => iterateIndexedDB(range, (value) => onValue(decodeValue(value))),
+  },
+}
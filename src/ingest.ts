@@ -0,0 +1,74 @@
+import { type FileSource, collectItems, walkEntries, walkFileList, walkHandles } from './files.ts'
+import { prepareWorkerInput } from './runnerClient.ts'
+import type { RunnerInput } from './runner.worker.ts'
+
+// One picked input, whichever way it came in: a label for the run, the source the main thread
+// walks, and how to hand it to the worker. Every source yields the same {path, file} items.
+export type Ingestion = {
+  label: string
+  source: FileSource
+  workerInput: () => Promise<RunnerInput>
+}
+
+export function canPickDirectory(): boolean {
+  return typeof window.showDirectoryPicker === 'function'
+}
+
+// Dropped items, walked as File System Access handles where the browser offers them and as
+// legacy entries otherwise. Has to be called synchronously in the drop handler, the drop data
+// is gone after the first await.
+export function ingestDrop(dataTransfer: DataTransfer): Ingestion | null {
+  const entries: Array<any> = []
+  const handlePromises: Array<Promise<FileSystemHandle | null>> = []
+
+  for (const item of Array.from(dataTransfer.items)) {
+    if (item.kind !== 'file') continue
+    const entry = item.webkitGetAsEntry()
+    if (entry) {
+      entries.push(entry)
+    }
+    if (item.getAsFileSystemHandle) {
+      handlePromises.push(item.getAsFileSystemHandle())
+    }
+  }
+  if (entries.length === 0) return null
+
+  // Handles are only used when there's one for every entry
+  const handles = Promise.all(handlePromises).then((resolved) => {
+    const found = resolved.filter((handle): handle is FileSystemHandle => !!handle)
+    return found.length === entries.length ? found : null
+  })
+
+  return {
+    label: `Dropped: ${entries.map((entry) => entry.name).join(', ')}`,
+    source: async function* () {
+      const resolved = await handles
+      yield* resolved ? walkHandles(resolved) : walkEntries(entries)
+    },
+    workerInput: () => prepareWorkerInput(entries, handlePromises),
+  }
+}
+
+// A directory from showDirectoryPicker(), its handle can be posted to the worker as is
+export function ingestDirectoryHandle(handle: FileSystemDirectoryHandle): Ingestion {
+  return {
+    label: `Picked: ${handle.name}`,
+    source: () => walkHandles([handle]),
+    workerInput: async () => ({ kind: 'handles', handles: [handle] }),
+  }
+}
+
+// The files of a folder <input>. Their relative paths don't survive posting,
+// so the worker gets the collected items.
+export function ingestFileList(files: FileList): Ingestion | null {
+  const list = Array.from(files)
+  if (list.length === 0) return null
+
+  const root = list[0].webkitRelativePath.split('/')[0] || list[0].name
+  const source: FileSource = () => walkFileList(list)
+  return {
+    label: `Selected: ${root}`,
+    source,
+    workerInput: async () => ({ kind: 'items', items: await collectItems(source) }),
+  }
+}
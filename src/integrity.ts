@@ -0,0 +1,41 @@
+import { type ReadValue, materializeValue } from './encoding.ts'
+
+// Outcome of checking read-back contents against the digests taken at write time
+export type VerificationCounts = {
+  verified: number
+  mismatched: number
+  // Records with a digest but no contents
+  missing: number
+  // Records written without a digest, so there's nothing to check them against
+  unhashed: number
+  // Time spent hashing, which is left out of the benchmark duration
+  hashDuration: number
+}
+
+export function emptyVerification(): VerificationCounts {
+  return { verified: 0, mismatched: 0, missing: 0, unhashed: 0, hashDuration: 0 }
+}
+
+// Hex SHA-256 of the contents, SubtleCrypto can't hash incrementally so it needs every byte
+export async function sha256(value: ReadValue): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await materializeValue(value))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Hash while keeping track of the time it took
+export async function timedSha256(
+  value: ReadValue,
+  verification: VerificationCounts,
+): Promise<string> {
+  const start = performance.now()
+  try {
+    return await sha256(value)
+  } finally {
+    verification.hashDuration += performance.now() - start
+  }
+}
+
+// Whether the verification found anything wrong
+export function hasIntegrityFailures(verification: VerificationCounts): boolean {
+  return verification.mismatched > 0 || verification.missing > 0
+}
@@ -0,0 +1,69 @@
+import { type DBSchema, type IDBPDatabase, deleteDB, openDB } from 'idb'
+import type { FileMetadata } from './backends.ts'
+
+interface MetadataDB extends DBSchema {
+  meta: {
+    key: string
+    value: FileMetadata
+  }
+}
+
+const STORE_NAME = 'meta'
+
+export type MetadataStore = {
+  put: (records: Array<FileMetadata>) => Promise<void>
+  getAll: () => Promise<Array<FileMetadata>>
+  delete: (paths: Array<string>) => Promise<void>
+  clear: () => Promise<void>
+  close: () => void
+  destroy: () => Promise<void>
+}
+
+// Standalone IndexedDB metadata store for backends that can't keep metadata next to the data
+export function createMetadataStore(dbName: string): MetadataStore {
+  let db: IDBPDatabase<MetadataDB> | null = null
+
+  const open = async (): Promise<IDBPDatabase<MetadataDB>> => {
+    db ??= await openDB<MetadataDB>(dbName, 1, {
+      upgrade(database) {
+        database.createObjectStore(STORE_NAME, { keyPath: 'path' })
+      },
+      // Let other contexts delete or upgrade it, it's reopened on next use
+      blocking() {
+        close()
+      },
+    })
+    return db
+  }
+
+  const close = () => {
+    if (db) {
+      db.close()
+      db = null
+    }
+  }
+
+  return {
+    put: async (records) => {
+      const tx = (await open()).transaction(STORE_NAME, 'readwrite')
+      for (const record of records) {
+        tx.store.put(record)
+      }
+      await tx.done
+    },
+    getAll: async () => (await open()).getAll(STORE_NAME),
+    delete: async (paths) => {
+      const tx = (await open()).transaction(STORE_NAME, 'readwrite')
+      for (const path of paths) {
+        tx.store.delete(path)
+      }
+      await tx.done
+    },
+    clear: async () => (await open()).clear(STORE_NAME),
+    close,
+    destroy: async () => {
+      close()
+      await deleteDB(dbName)
+    },
+  }
+}
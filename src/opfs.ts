@@ -0,0 +1,240 @@
+import type { FileMetadata, StorageBackend, StoredFile } from './backends.ts'
+import type { ReadValue } from './encoding.ts'
+import { storedMetadata } from './files.ts'
+import { createMetadataStore } from './metadata.ts'
+import type { OPFSWorkerRequest, OPFSWorkerResponse } from './opfs.worker.ts'
+
+// Directory variables
+let dir: FileSystemDirectoryHandle | null = null
+export const DIR_NAME = 'filesDB_opfs'
+
+export const BATCH_SIZE = 500
+
+// OPFS has nowhere to keep metadata, so it lives in a small IndexedDB database
+const metadata = createMetadataStore(`${DIR_NAME}_meta`)
+
+// Sync access handles only exist in dedicated workers, so the sync variant goes through one
+let worker: Worker | null = null
+let nextRequestId = 0
+const pendingRequests = new Map<
+  number,
+  { resolve: (response: OPFSWorkerResponse) => void; reject: (reason: unknown) => void }
+>()
+
+// OPFS file names can't contain slashes, so keys are stored URI-encoded
+function keyToName(key: string): string {
+  return encodeURIComponent(key)
+}
+
+function nameToKey(name: string): string {
+  return decodeURIComponent(name)
+}
+
+function getWorker(): Worker {
+  if (worker) return worker
+
+  worker = new Worker(new URL('./opfs.worker.ts', import.meta.url), { type: 'module' })
+  worker.onmessage = (event: MessageEvent<OPFSWorkerResponse>) => {
+    const pending = pendingRequests.get(event.data.id)
+    if (!pending) return
+    pendingRequests.delete(event.data.id)
+    pending.resolve(event.data)
+  }
+  worker.onerror = (event) => {
+    console.error('OPFS worker error:', event)
+    for (const pending of pendingRequests.values()) {
+      pending.reject(event)
+    }
+    pendingRequests.clear()
+  }
+  return worker
+}
+
+// Send a request to the worker and wait for its matching response
+async function callWorker(
+  request: OPFSWorkerRequest,
+): Promise<Extract<OPFSWorkerResponse, { ok: true }>> {
+  const response = await new Promise<OPFSWorkerResponse>((resolve, reject) => {
+    pendingRequests.set(request.id, { resolve, reject })
+    getWorker().postMessage(request)
+  })
+  if (!response.ok) throw new Error(response.error)
+  return response
+}
+
+// Initialize the OPFS directory
+export async function initOPFS(): Promise<FileSystemDirectoryHandle> {
+  const root = await navigator.storage.getDirectory()
+  dir = await root.getDirectoryHandle(DIR_NAME, { create: true })
+
+  console.log('OPFS initialized successfully')
+  return dir
+}
+
+// Batch save files to OPFS, either with async writable streams or sync access handles
+export async function batchSaveToOPFS(
+  files: Array<StoredFile>,
+  useSyncAccess = false,
+): Promise<void> {
+  if (!dir || files.length === 0) return
+
+  if (useSyncAccess) {
+    await callWorker({
+      id: nextRequestId++,
+      type: 'save',
+      dirName: DIR_NAME,
+      files: files.map(({ path, file }) => ({ name: keyToName(path), file })),
+    })
+  } else {
+    for (const { path, file } of files) {
+      const handle = await dir.getFileHandle(keyToName(path), { create: true })
+      const writable = await handle.createWritable()
+      try {
+        await writable.write(file)
+      } finally {
+        await writable.close()
+      }
+    }
+  }
+
+  await metadata.put(
+    files.map(storedMetadata).filter((record): record is FileMetadata => record !== null),
+  )
+}
+
+// Get all keys from the OPFS directory
+export async function getAllKeys(): Promise<Array<string>> {
+  if (!dir) return []
+
+  const keys: Array<string> = []
+  for await (const [name, handle] of dir.entries()) {
+    if (handle.kind === 'file') {
+      keys.push(nameToKey(name))
+    }
+  }
+  return keys
+}
+
+// Read files in batches, either as lazy File handles or as bytes through sync access handles,
+// results line up with keys and are null for missing files
+export async function batchReadFromOPFS(
+  keys: Array<string>,
+  batchSize: number,
+  useSyncAccess = false,
+): Promise<Array<ReadValue | null>> {
+  if (!dir || keys.length === 0) return []
+
+  const results: Array<ReadValue | null> = []
+
+  for (let i = 0; i < keys.length; i += batchSize) {
+    const batchKeys = keys.slice(i, i + batchSize)
+
+    if (useSyncAccess) {
+      const response = await callWorker({
+        id: nextRequestId++,
+        type: 'read',
+        dirName: DIR_NAME,
+        names: batchKeys.map(keyToName),
+      })
+      for (const buffer of response.buffers ?? []) {
+        results.push(buffer ? new Uint8Array(buffer) : null)
+      }
+      continue
+    }
+
+    const batchResults = await Promise.all(
+      batchKeys.map(async (key): Promise<ReadValue | null> => {
+        try {
+          const handle = await dir!.getFileHandle(keyToName(key))
+          return await handle.getFile()
+        } catch {
+          return null
+        }
+      }),
+    )
+    results.push(...batchResults)
+  }
+
+  return results
+}
+
+// Batch delete files and their metadata from the OPFS directory
+export async function batchDeleteFromOPFS(keys: Array<string>): Promise<void> {
+  if (!dir || keys.length === 0) return
+
+  for (const key of keys) {
+    try {
+      await dir.removeEntry(keyToName(key))
+    } catch (error) {
+      if ((error as DOMException).name !== 'NotFoundError') throw error
+    }
+  }
+  await metadata.delete(keys)
+}
+
+// Remove every file from the directory, keeping the directory itself
+export async function clearOPFS(): Promise<void> {
+  if (!dir) return
+
+  const names: Array<string> = []
+  for await (const name of dir.keys()) {
+    names.push(name)
+  }
+  for (const name of names) {
+    await dir.removeEntry(name, { recursive: true })
+  }
+  await metadata.clear()
+}
+
+// Drop the directory handle and stop the sync access worker
+export function closeOPFS(): void {
+  dir = null
+  metadata.close()
+  if (worker) {
+    worker.terminate()
+    worker = null
+  }
+  for (const pending of pendingRequests.values()) {
+    pending.reject(new Error('OPFS closed'))
+  }
+  pendingRequests.clear()
+}
+
+// Delete the OPFS directory and its metadata
+export async function deleteOPFS(): Promise<void> {
+  closeOPFS()
+  await metadata.destroy()
+  const root = await navigator.storage.getDirectory()
+  try {
+    await root.removeEntry(DIR_NAME, { recursive: true })
+  } catch (error) {
+    if ((error as DOMException).name !== 'NotFoundError') throw error
+  }
+}
+
+// Both variants share the same directory and differ only in how bytes are written and read
+export const opfsBackend: StorageBackend = {
+  id: 'opfs',
+  title: 'OPFS',
+  batchSize: BATCH_SIZE,
+  transactional: false,
+  init: async () => {
+    if (!dir) await initOPFS()
+  },
+  putBatch: (files) => batchSaveToOPFS(files, false),
+  listKeys: getAllKeys,
+  listMetadata: metadata.getAll,
+  getBatch: (keys, options = {}) => batchReadFromOPFS(keys, options.batchSize ?? BATCH_SIZE, false),
+  deleteBatch: batchDeleteFromOPFS,
+  clear: clearOPFS,
+  close: closeOPFS,
+  destroy: deleteOPFS,
+}
+
+export const opfsSyncBackend: StorageBackend = {
+  ...opfsBackend,
+  id: 'opfs-sync',
+  title: 'OPFS (sync access, worker)',
+  putBatch: (files) => batchSaveToOPFS(files, true),
+  getBatch: (keys, options = {}) => batchReadFromOPFS(keys, options.batchSize ?? BATCH_SIZE, true),
+}
@@ -0,0 +1,98 @@
+// Dedicated worker for OPFS sync access handles, which the main thread can't create
+
+export type OPFSWorkerRequest =
+  | {
+      id: number
+      type: 'save'
+      dirName: string
+      files: Array<{ name: string; file: File }>
+    }
+  | {
+      id: number
+      type: 'read'
+      dirName: string
+      names: Array<string>
+    }
+
+export type OPFSWorkerResponse =
+  | { id: number; ok: true; buffers?: Array<ArrayBuffer | null> }
+  | { id: number; ok: false; error: string }
+
+async function getDirectory(dirName: string): Promise<FileSystemDirectoryHandle> {
+  const root = await navigator.storage.getDirectory()
+  return root.getDirectoryHandle(dirName, { create: true })
+}
+
+// Write every file through its own sync access handle
+async function saveFiles(
+  dirName: string,
+  files: Array<{ name: string; file: File }>,
+): Promise<void> {
+  const dir = await getDirectory(dirName)
+
+  for (const { name, file } of files) {
+    const handle = await dir.getFileHandle(name, { create: true })
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    const access = await handle.createSyncAccessHandle()
+    try {
+      access.truncate(0)
+      access.write(bytes, { at: 0 })
+      access.flush()
+    } finally {
+      access.close()
+    }
+  }
+}
+
+// Read files back into buffers, null for names that don't exist
+async function readFiles(
+  dirName: string,
+  names: Array<string>,
+): Promise<Array<ArrayBuffer | null>> {
+  const dir = await getDirectory(dirName)
+  const buffers: Array<ArrayBuffer | null> = []
+
+  for (const name of names) {
+    let handle: FileSystemFileHandle
+    try {
+      handle = await dir.getFileHandle(name)
+    } catch {
+      buffers.push(null)
+      continue
+    }
+
+    const access = await handle.createSyncAccessHandle()
+    try {
+      const bytes = new Uint8Array(access.getSize())
+      access.read(bytes, { at: 0 })
+      buffers.push(bytes.buffer)
+    } finally {
+      access.close()
+    }
+  }
+
+  return buffers
+}
+
+self.onmessage = async (event: MessageEvent<OPFSWorkerRequest>) => {
+  const request = event.data
+
+  try {
+    if (request.type === 'save') {
+      await saveFiles(request.dirName, request.files)
+      self.postMessage({ id: request.id, ok: true } satisfies OPFSWorkerResponse)
+    } else {
+      const buffers = await readFiles(request.dirName, request.names)
+      const transfer = buffers.filter((buffer): buffer is ArrayBuffer => buffer !== null)
+      self.postMessage({ id: request.id, ok: true, buffers } satisfies OPFSWorkerResponse, {
+        transfer,
+      })
+    }
+  } catch (error) {
+    self.postMessage({
+      id: request.id,
+      ok: false,
+      error: String(error),
+    } satisfies OPFSWorkerResponse)
+  }
+}
@@ -0,0 +1,281 @@
+import { type DBSchema, type IDBPDatabase, deleteDB, openDB } from 'idb'
+import type { FileMetadata, StorageBackend, StoredFile } from './backends.ts'
+import type { ReadValue } from './encoding.ts'
+import { storedMetadata } from './files.ts'
+import { createMetadataStore } from './metadata.ts'
+
+// Where a file's bytes are: a range of one pack file
+type PackEntry = {
+  path: string
+  pack: number
+  offset: number
+  length: number
+  type: string
+}
+
+interface PackIndexDB extends DBSchema {
+  index: {
+    key: string
+    value: PackEntry
+  }
+}
+
+// Directory variables
+let dir: FileSystemDirectoryHandle | null = null
+let index: IDBPDatabase<PackIndexDB> | null = null
+// Number of the next pack file to write
+let nextPack = 0
+export const DIR_NAME = 'filesDB_packed'
+const INDEX_DB_NAME = `${DIR_NAME}_index`
+const INDEX_STORE = 'index'
+
+export const BATCH_SIZE = 500
+
+// Packs with less than this share of live bytes get rewritten when compacting
+export const COMPACTION_THRESHOLD = 0.5
+
+const metadata = createMetadataStore(`${DIR_NAME}_meta`)
+
+function packName(pack: number): string {
+  return `pack-${pack}.bin`
+}
+
+function packNumber(name: string): number | null {
+  const match = /^pack-(\d+)\.bin$/.exec(name)
+  return match ? Number(match[1]) : null
+}
+
+async function openIndex(): Promise<IDBPDatabase<PackIndexDB>> {
+  index ??= await openDB<PackIndexDB>(INDEX_DB_NAME, 1, {
+    upgrade(database) {
+      database.createObjectStore(INDEX_STORE, { keyPath: 'path' })
+    },
+    // Let other contexts delete or upgrade it, it's reopened on next use
+    blocking() {
+      index?.close()
+      index = null
+    },
+  })
+  return index
+}
+
+// Every pack file in the directory, in write order
+async function listPacks(): Promise<Array<{ pack: number; file: File }>> {
+  const packs: Array<{ pack: number; file: File }> = []
+  for await (const [name, handle] of dir!.entries()) {
+    const pack = packNumber(name)
+    if (handle.kind === 'file' && pack !== null) {
+      packs.push({ pack, file: await (handle as FileSystemFileHandle).getFile() })
+    }
+  }
+  return packs.sort((a, b) => a.pack - b.pack)
+}
+
+// Initialize the pack directory and index, carrying on after the last pack already written
+export async function initPacked(): Promise<FileSystemDirectoryHandle> {
+  const root = await navigator.storage.getDirectory()
+  dir = await root.getDirectoryHandle(DIR_NAME, { create: true })
+  await openIndex()
+  const packs = await listPacks()
+  nextPack = packs.length > 0 ? packs[packs.length - 1].pack + 1 : 0
+
+  console.log('Packed OPFS initialized successfully')
+  return dir
+}
+
+// Write the blobs back to back into a new pack file, then index them. Packs are never
+// modified afterwards, overwritten and deleted files just leave dead bytes behind.
+async function writePack(records: Array<{ path: string; blob: Blob }>): Promise<void> {
+  const pack = nextPack++
+  const entries: Array<PackEntry> = []
+  let offset = 0
+  for (const { path, blob } of records) {
+    entries.push({ path, pack, offset, length: blob.size, type: blob.type })
+    offset += blob.size
+  }
+
+  const handle = await dir!.getFileHandle(packName(pack), { create: true })
+  const writable = await handle.createWritable()
+  try {
+    await writable.write(new Blob(records.map(({ blob }) => blob)))
+  } catch (error) {
+    // Aborting throws the written bytes away, closing would commit a partial pack. The empty
+    // file creating the handle left behind goes too.
+    await writable.abort()
+    await dir!.removeEntry(packName(pack))
+    throw error
+  }
+  await writable.close()
+
+  // Indexed once the bytes are in place, so entries never point past the end of a pack
+  const tx = (await openIndex()).transaction(INDEX_STORE, 'readwrite')
+  for (const entry of entries) {
+    tx.store.put(entry)
+  }
+  await tx.done
+}
+
+// Batch save files into one new pack file
+export async function batchSaveToPacks(files: Array<StoredFile>): Promise<void> {
+  if (!dir || files.length === 0) return
+
+  await writePack(files.map(({ path, file }) => ({ path, blob: file })))
+  await metadata.put(
+    files.map(storedMetadata).filter((record): record is FileMetadata => record !== null),
+  )
+}
+
+// Get all keys from the index
+export async function getAllKeys(): Promise<Array<string>> {
+  if (!dir) return []
+  return (await openIndex()).getAllKeys(INDEX_STORE)
+}
+
+// Read files in batches as lazy slices of their pack files, results line up with keys and are
+// null for missing files
+export async function batchReadFromPacks(
+  keys: Array<string>,
+  batchSize: number,
+): Promise<Array<ReadValue | null>> {
+  if (!dir || keys.length === 0) return []
+
+  const db = await openIndex()
+  // Each pack is opened once per call, however many files are sliced out of it
+  const packFiles = new Map<number, Promise<File>>()
+  const packFile = (pack: number): Promise<File> => {
+    let file = packFiles.get(pack)
+    if (!file) {
+      file = dir!.getFileHandle(packName(pack)).then((handle) => handle.getFile())
+      packFiles.set(pack, file)
+    }
+    return file
+  }
+
+  const results: Array<ReadValue | null> = []
+
+  for (let i = 0; i < keys.length; i += batchSize) {
+    const tx = db.transaction(INDEX_STORE, 'readonly')
+    const entries = await Promise.all(keys.slice(i, i + batchSize).map((key) => tx.store.get(key)))
+    await tx.done
+
+    const batchResults = await Promise.all(
+      entries.map(async (entry): Promise<ReadValue | null> => {
+        if (!entry) return null
+        try {
+          const file = await packFile(entry.pack)
+          return file.slice(entry.offset, entry.offset + entry.length, entry.type)
+        } catch {
+          return null
+        }
+      }),
+    )
+    results.push(...batchResults)
+  }
+
+  return results
+}
+
+// Rewrite the live files of packs that are mostly dead bytes into one new pack, and remove
+// those packs. Returns how many bytes were reclaimed.
+export async function compactPacks(threshold = COMPACTION_THRESHOLD): Promise<number> {
+  if (!dir) return 0
+
+  const live = new Map<number, Array<PackEntry>>()
+  for (const entry of await (await openIndex()).getAll(INDEX_STORE)) {
+    const entries = live.get(entry.pack)
+    if (entries) {
+      entries.push(entry)
+    } else {
+      live.set(entry.pack, [entry])
+    }
+  }
+
+  const stale = (await listPacks()).filter(({ pack, file }) => {
+    const liveBytes = (live.get(pack) ?? []).reduce((sum, entry) => sum + entry.length, 0)
+    return liveBytes < file.size * threshold
+  })
+  if (stale.length === 0) return 0
+
+  const moved = stale.flatMap(({ pack, file }) =>
+    (live.get(pack) ?? []).map((entry) => ({
+      path: entry.path,
+      blob: file.slice(entry.offset, entry.offset + entry.length, entry.type),
+    })),
+  )
+  // The new pack is complete before the old ones go, so files stay readable throughout
+  if (moved.length > 0) await writePack(moved)
+
+  const movedBytes = moved.reduce((sum, { blob }) => sum + blob.size, 0)
+  for (const { pack } of stale) {
+    await dir.removeEntry(packName(pack))
+  }
+  return stale.reduce((sum, { file }) => sum + file.size, 0) - movedBytes
+}
+
+// Batch delete files from the index and metadata, their bytes stay in the packs until compacted
+export async function batchDeleteFromPacks(keys: Array<string>): Promise<void> {
+  if (!dir || keys.length === 0) return
+
+  const tx = (await openIndex()).transaction(INDEX_STORE, 'readwrite')
+  for (const key of keys) {
+    tx.store.delete(key)
+  }
+  await tx.done
+  await metadata.delete(keys)
+}
+
+// Remove every pack file and index entry, keeping the directory itself
+export async function clearPacks(): Promise<void> {
+  if (!dir) return
+
+  const names: Array<string> = []
+  for await (const name of dir.keys()) {
+    names.push(name)
+  }
+  for (const name of names) {
+    await dir.removeEntry(name, { recursive: true })
+  }
+  await (await openIndex()).clear(INDEX_STORE)
+  await metadata.clear()
+  nextPack = 0
+}
+
+// Drop the directory handle and close the index
+export function closePacks(): void {
+  dir = null
+  index?.close()
+  index = null
+  metadata.close()
+}
+
+// Delete the pack directory, its index and metadata
+export async function deletePacks(): Promise<void> {
+  closePacks()
+  await deleteDB(INDEX_DB_NAME)
+  await metadata.destroy()
+  const root = await navigator.storage.getDirectory()
+  try {
+    await root.removeEntry(DIR_NAME, { recursive: true })
+  } catch (error) {
+    if ((error as DOMException).name !== 'NotFoundError') throw error
+  }
+}
+
+export const packedBackend: StorageBackend = {
+  id: 'opfs-packed',
+  title: 'OPFS (packed)',
+  batchSize: BATCH_SIZE,
+  transactional: false,
+  init: async () => {
+    if (!dir) await initPacked()
+  },
+  putBatch: (files) => batchSaveToPacks(files),
+  listKeys: getAllKeys,
+  listMetadata: metadata.getAll,
+  getBatch: (keys, options = {}) => batchReadFromPacks(keys, options.batchSize ?? BATCH_SIZE),
+  deleteBatch: batchDeleteFromPacks,
+  clear: clearPacks,
+  close: closePacks,
+  destroy: deletePacks,
+  compact: () => compactPacks(),
+}
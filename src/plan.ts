@@ -0,0 +1,111 @@
+import type { StorageOptions } from './backends.ts'
+import { type BenchmarkConfig, benchmarks } from './benchmarks.ts'
+
+// One step of a run plan, plain data so plans can be saved and posted to a worker
+export type PlanStep = {
+  // Unique within the plan, results are reported under it
+  id: string
+  benchmarkId: string
+  enabled: boolean
+  // Overrides of the run-wide storage options for this step only
+  options?: StorageOptions
+  // Earlier write step leaving the data this step works on. When it's disabled, its benchmark
+  // runs untimed with its options before this step instead.
+  dependsOn?: string
+  title?: string
+}
+
+// An ordered list of steps, saved under its name
+export type RunPlan = {
+  name: string
+  steps: Array<PlanStep>
+}
+
+// A plan step resolved to the benchmarks it runs
+export type RunStep = {
+  id: string
+  title: string
+  benchmark: BenchmarkConfig
+  options: StorageOptions
+  // Write to run untimed first, unless its data is already in place
+  requirement?: { benchmark: BenchmarkConfig; options: StorageOptions }
+}
+
+export const DEFAULT_PLAN_NAME = 'All benchmarks'
+
+export function findBenchmark(id: string): BenchmarkConfig | undefined {
+  return benchmarks.find((benchmark) => benchmark.id === id)
+}
+
+// Every benchmark in its default order, each depending on the write it requires
+export function defaultPlan(): RunPlan {
+  return {
+    name: DEFAULT_PLAN_NAME,
+    steps: benchmarks.map((benchmark) => ({
+      id: benchmark.id,
+      benchmarkId: benchmark.id,
+      enabled: true,
+      dependsOn: benchmark.requires,
+    })),
+  }
+}
+
+// The default plan with only the given benchmarks enabled
+export function planFromIds(ids: Array<string>, name = DEFAULT_PLAN_NAME): RunPlan {
+  const plan = defaultPlan()
+  return {
+    name,
+    steps: plan.steps.map((step) => ({ ...step, enabled: ids.includes(step.benchmarkId) })),
+  }
+}
+
+// Throws when a step names an unknown benchmark, repeats an id, or depends on something
+// other than an earlier write step
+export function validatePlan(plan: RunPlan): void {
+  const seen = new Map<string, PlanStep>()
+
+  for (const step of plan.steps) {
+    if (seen.has(step.id)) throw new Error(`Duplicate plan step id "${step.id}"`)
+    if (!findBenchmark(step.benchmarkId)) {
+      throw new Error(`Plan step "${step.id}" has unknown benchmark "${step.benchmarkId}"`)
+    }
+    if (step.dependsOn !== undefined) {
+      const dependency = seen.get(step.dependsOn)
+      if (!dependency) {
+        throw new Error(
+          `Plan step "${step.id}" depends on "${step.dependsOn}", not an earlier step`,
+        )
+      }
+      if (!findBenchmark(dependency.benchmarkId)!.isPopulated) {
+        throw new Error(`Plan step "${step.id}" depends on "${step.dependsOn}", not a write step`)
+      }
+    }
+    seen.set(step.id, step)
+  }
+}
+
+// The enabled steps of a valid plan, in order
+export function planSteps(plan: RunPlan): Array<RunStep> {
+  validatePlan(plan)
+
+  return plan.steps
+    .filter((step) => step.enabled)
+    .map((step) => {
+      const benchmark = findBenchmark(step.benchmarkId)!
+      const options = step.options ?? {}
+      const dependency = plan.steps.find((other) => other.id === step.dependsOn)
+      // Without a dependency step, a required write runs with the step's own options
+      const required = dependency ? findBenchmark(dependency.benchmarkId) : undefined
+      const fallback = benchmark.requires ? findBenchmark(benchmark.requires) : undefined
+
+      return {
+        id: step.id,
+        title: step.title ?? benchmark.title,
+        benchmark,
+        options,
+        requirement: required
+          ? { benchmark: required, options: dependency!.options ?? {} }
+          : fallback && { benchmark: fallback, options },
+      }
+    })
+}
@@ -0,0 +1,48 @@
+// Origin-wide usage as reported by navigator.storage.estimate(), in bytes.
+// Browsers may round or pad these, so small differences are noise.
+export type StorageUsage = {
+  usage: number
+  quota: number
+  // Usage per storage type (indexedDB, fileSystem, caches, ...), Chromium only
+  details?: Record<string, number>
+}
+
+// Usage around a benchmark, null where the estimate isn't available
+export type StorageChange = {
+  before: StorageUsage | null
+  after: StorageUsage | null
+}
+
+export async function estimateStorage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null
+  try {
+    const estimate: StorageEstimate & { usageDetails?: Record<string, number> } =
+      await navigator.storage.estimate()
+    return {
+      usage: estimate.usage ?? 0,
+      quota: estimate.quota ?? 0,
+      ...(estimate.usageDetails && { details: { ...estimate.usageDetails } }),
+    }
+  } catch (error) {
+    console.error('Failed to estimate storage:', error)
+    return null
+  }
+}
+
+// Bytes released between the two estimates, negative when usage grew
+export function freedBytes(change: StorageChange): number | null {
+  if (!change.before || !change.after) return null
+  return change.before.usage - change.after.usage
+}
+
+// Bytes the benchmark added to the origin's usage, null without both estimates
+export function usageGrowth(change: StorageChange): number | null {
+  if (!change.before || !change.after) return null
+  return change.after.usage - change.before.usage
+}
+
+// Stored bytes per logical byte, only meaningful when the benchmark grew usage
+export function overheadRatio(bytesOnDisk: number | null, totalSize: number): number | null {
+  if (bytesOnDisk === null || bytesOnDisk <= 0 || totalSize <= 0) return null
+  return bytesOnDisk / totalSize
+}
@@ -0,0 +1,210 @@
+import type { BenchmarkResult } from './benchmarks.ts'
+import { compressionRatio } from './codec.ts'
+import type { DatasetSpec } from './generator.ts'
+import type { RunPlan } from './plan.ts'
+import type { RunConfig } from './runner.ts'
+import type { SweepConfig } from './sweep.ts'
+
+// Bump whenever the report shape changes incompatibly
+export const REPORT_VERSION = 1
+
+export type DatasetDescription = {
+  label: string
+  // Only for synthetic datasets, enough to regenerate them exactly
+  spec?: DatasetSpec
+}
+
+export type EnvironmentInfo = {
+  userAgent: string
+  language: string
+  hardwareConcurrency: number
+  deviceMemory?: number
+}
+
+export type ReportEntry = {
+  id: string
+  title: string
+  result: BenchmarkResult
+}
+
+export type BenchmarkReport = {
+  version: typeof REPORT_VERSION
+  createdAt: string
+  config: RunConfig & { thread: 'main' | 'worker'; sweep?: SweepConfig; plan?: RunPlan }
+  dataset: DatasetDescription
+  environment: EnvironmentInfo
+  results: Array<ReportEntry>
+}
+
+export function collectEnvironment(): EnvironmentInfo {
+  return {
+    userAgent: navigator.userAgent,
+    language: navigator.language,
+    hardwareConcurrency: navigator.hardwareConcurrency,
+    // Chromium only
+    deviceMemory: navigator.deviceMemory,
+  }
+}
+
+export function createReport(
+  fields: Pick<BenchmarkReport, 'createdAt' | 'config' | 'dataset' | 'results'>,
+): BenchmarkReport {
+  return {
+    version: REPORT_VERSION,
+    environment: collectEnvironment(),
+    ...fields,
+  }
+}
+
+export function reportFilename(report: BenchmarkReport, extension: string): string {
+  return `benchmark-${report.createdAt.replace(/[:.]/g, '-')}.${extension}`
+}
+
+export function reportToJSON(report: BenchmarkReport): string {
+  return JSON.stringify(report, null, 2)
+}
+
+// Result fields the comparison view does arithmetic on
+const NUMERIC_RESULT_FIELDS = ['duration', 'fileCount', 'totalSize', 'errorCount'] as const
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+// Why an entry of an imported report can't be shown, null when it's fine
+function invalidEntry(entry: any): string | null {
+  if (!entry || typeof entry !== 'object') return 'not an object'
+  if (typeof entry.id !== 'string' || typeof entry.title !== 'string') {
+    return 'missing id or title'
+  }
+  const { result } = entry
+  if (!result || typeof result !== 'object') return 'missing result'
+  const field = NUMERIC_RESULT_FIELDS.find((name) => !isNumber(result[name]))
+  if (field) return `result.${field} is not a number`
+  if (result.stats !== undefined && !isNumber(result.stats?.mbPerSec)) {
+    return 'result.stats.mbPerSec is not a number'
+  }
+  return null
+}
+
+// Parse a previously exported report, throwing on anything this version can't read
+export function parseReport(text: string): BenchmarkReport {
+  const report = JSON.parse(text)
+  if (!report || typeof report !== 'object' || !Array.isArray(report.results)) {
+    throw new Error('Not a benchmark report')
+  }
+  if (report.version !== REPORT_VERSION) {
+    throw new Error(`Unsupported report version: ${report.version}`)
+  }
+  if (
+    typeof report.dataset?.label !== 'string' ||
+    typeof report.environment?.userAgent !== 'string' ||
+    typeof report.createdAt !== 'string'
+  ) {
+    throw new Error('Malformed report: missing dataset label, environment or creation time')
+  }
+  report.results.forEach((entry: unknown, index: number) => {
+    const problem = invalidEntry(entry)
+    if (problem) throw new Error(`Malformed report entry ${index + 1}: ${problem}`)
+  })
+  return report as BenchmarkReport
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'title',
+  'implementation',
+  'thread',
+  'fileCount',
+  'dirCount',
+  'totalSize',
+  'duration',
+  'iterations',
+  'min',
+  'median',
+  'mean',
+  'p95',
+  'stddev',
+  'mbPerSec',
+  'filesPerSec',
+  'errorCount',
+  'writtenCount',
+  'recoveredCount',
+  'missingCount',
+  'verifiedCount',
+  'mismatchedCount',
+  'verifyMissingCount',
+  'latencyCount',
+  'latencyP50',
+  'latencyP95',
+  'latencyP99',
+  'usageBefore',
+  'usageAfter',
+  'bytesOnDisk',
+  'overheadRatio',
+  'compression',
+  'compressDuration',
+  'decompressDuration',
+  'compressionRatio',
+  'reclaimedBytes',
+  'aborted',
+] as const
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// One row per benchmark, for spreadsheets
+export function reportToCSV(report: BenchmarkReport): string {
+  const rows = report.results.map(({ id, title, result }) => {
+    const values: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+      id,
+      title,
+      implementation: result.implementation,
+      thread: result.thread,
+      fileCount: result.fileCount,
+      dirCount: result.dirCount,
+      totalSize: result.totalSize,
+      duration: result.duration,
+      iterations: result.stats?.iterations,
+      min: result.stats?.min,
+      median: result.stats?.median,
+      mean: result.stats?.mean,
+      p95: result.stats?.p95,
+      stddev: result.stats?.stddev,
+      mbPerSec: result.stats?.mbPerSec,
+      filesPerSec: result.stats?.filesPerSec,
+      errorCount: result.errorCount,
+      writtenCount: result.writtenCount,
+      recoveredCount: result.recoveredCount,
+      missingCount: result.missingCount,
+      verifiedCount: result.verification?.verified,
+      mismatchedCount: result.verification?.mismatched,
+      verifyMissingCount: result.verification?.missing,
+      latencyCount: result.latency?.count,
+      latencyP50: result.latency?.p50,
+      latencyP95: result.latency?.p95,
+      latencyP99: result.latency?.p99,
+      usageBefore: result.storage?.before?.usage,
+      usageAfter: result.storage?.after?.usage,
+      bytesOnDisk: result.bytesOnDisk,
+      overheadRatio: result.overheadRatio,
+      compression: result.compression && result.options?.compression,
+      compressDuration: result.compression?.compressDuration,
+      decompressDuration: result.compression?.decompressDuration,
+      compressionRatio: result.compression && compressionRatio(result.compression),
+      reclaimedBytes: result.reclaimedBytes,
+      aborted: result.aborted,
+    }
+    return CSV_COLUMNS.map((column) => csvCell(values[column])).join(',')
+  })
+  return [CSV_COLUMNS.join(','), ...rows].join('\n')
+}
+
+// Relative change from baseline to current in percent, null when there's nothing to compare
+export function percentChange(current: number, baseline: number): number | null {
+  if (!Number.isFinite(current) || !Number.isFinite(baseline) || baseline === 0) return null
+  return ((current - baseline) / baseline) * 100
+}
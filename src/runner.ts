@@ -0,0 +1,214 @@
+import type { StorageOptions } from './backends.ts'
+import {
+  type BenchmarkContext,
+  type BenchmarkProgress,
+  type BenchmarkResult,
+  TRAVERSAL_ID,
+  benchmarkTraversal,
+} from './benchmarks.ts'
+import { type FileSource, type SourceItem, walkItems } from './files.ts'
+import { type RunPlan, type RunStep, planSteps } from './plan.ts'
+import { estimateStorage, overheadRatio, usageGrowth } from './quota.ts'
+import { summarize } from './stats.ts'
+import { type SweepConfig, sweepBenchmarks } from './sweep.ts'
+
+// How every benchmark runs: iteration counts (warm-ups are discarded) and storage options
+export type RunConfig = {
+  warmupIterations: number
+  iterations: number
+  storage: StorageOptions
+}
+
+export const defaultRunConfig: RunConfig = { warmupIterations: 0, iterations: 1, storage: {} }
+
+// Which benchmarks a run covers, plain data so it can be posted to a worker
+export type BenchmarkSelection =
+  | { kind: 'plan'; plan: RunPlan }
+  | { kind: 'sweep'; sweep: SweepConfig }
+
+// The steps a run goes through, in order. Throws on an invalid plan.
+export function selectSteps(selection: BenchmarkSelection): Array<RunStep> {
+  if (selection.kind === 'plan') return planSteps(selection.plan)
+
+  const cells = sweepBenchmarks(selection.sweep)
+  return cells.map((benchmark) => {
+    const required = cells.find((other) => other.id === benchmark.requires)
+    return {
+      id: benchmark.id,
+      title: benchmark.title,
+      benchmark,
+      options: {},
+      requirement: required && { benchmark: required, options: {} },
+    }
+  })
+}
+
+// Messages a run reports back, the same whether it runs on the main thread or in a worker
+export type RunEvent =
+  | { type: 'start'; benchmarkId: string }
+  | { type: 'result'; benchmarkId: string; result: BenchmarkResult }
+  | { type: 'error'; benchmarkId: string; error: string }
+  | { type: 'progress'; benchmarkId: string; progress: BenchmarkProgress }
+
+// Progress is throttled so a worker doesn't flood the main thread with messages
+const PROGRESS_INTERVAL = 100
+
+// Forward a benchmark's progress as events, filling in the expected total where it has none
+function progressReporter(
+  benchmarkId: string,
+  onEvent: (event: RunEvent) => void,
+  expectedFiles?: number,
+): (progress: BenchmarkProgress) => void {
+  let lastProgress = 0
+  return (progress) => {
+    const now = performance.now()
+    if (now - lastProgress < PROGRESS_INTERVAL) return
+    lastProgress = now
+    onEvent({
+      type: 'progress',
+      benchmarkId,
+      progress: { ...progress, total: progress.total ?? expectedFiles },
+    })
+  }
+}
+
+// Run the write a step requires, untimed, unless its data is already stored
+async function ensureRequirement(
+  step: RunStep,
+  source: FileSource,
+  runOptions: StorageOptions,
+  context: BenchmarkContext,
+): Promise<void> {
+  if (!step.requirement) return
+  const { benchmark } = step.requirement
+  const options = { ...runOptions, ...step.requirement.options }
+  if (await benchmark.isPopulated?.(options)) return
+
+  await benchmark.setup?.(source, options, context)
+  await benchmark.runBenchmark(source, options, context)
+  // A cancelled write leaves a partial store, don't run anything against it
+  context.signal?.throwIfAborted()
+}
+
+// Run one iteration after its requirement and setup, recording storage usage around it unless
+// the benchmark already took tighter estimates itself
+async function runIteration(
+  step: RunStep,
+  source: FileSource,
+  runOptions: StorageOptions,
+  context: BenchmarkContext,
+): Promise<BenchmarkResult> {
+  const { benchmark } = step
+  const options = { ...runOptions, ...step.options }
+  await ensureRequirement(step, source, runOptions, context)
+  await benchmark.setup?.(source, options, context)
+  const before = await estimateStorage()
+  const result = await benchmark.runBenchmark(source, options, context)
+  const storage = result.storage ?? { before, after: await estimateStorage() }
+  const bytesOnDisk = usageGrowth(storage)
+
+  return {
+    ...result,
+    storage,
+    bytesOnDisk: bytesOnDisk ?? undefined,
+    overheadRatio: overheadRatio(bytesOnDisk, result.totalSize) ?? undefined,
+  }
+}
+
+// Run warm-ups and measured iterations, folding the measured ones into one aggregate result.
+// A cancelled iteration is returned as it is, partial and unaggregated.
+async function runIterations(
+  step: RunStep,
+  source: FileSource,
+  config: RunConfig,
+  context: BenchmarkContext,
+): Promise<BenchmarkResult> {
+  const iterations = Math.max(1, config.iterations)
+  const warmupIterations = Math.max(0, config.warmupIterations)
+  const measured: Array<BenchmarkResult> = []
+
+  for (let i = 0; i < warmupIterations + iterations; i++) {
+    const result = await runIteration(step, source, config.storage, context)
+    if (result.aborted) return result
+    if (i >= warmupIterations) {
+      measured.push(result)
+    }
+  }
+
+  // Counts come from the last iteration, they're the same for every iteration of a healthy run
+  const last = measured[measured.length - 1]
+  const stats = summarize(
+    measured.map((result) => result.duration),
+    warmupIterations,
+    last.totalSize,
+    last.fileCount,
+  )
+  return {
+    ...last,
+    startTime: measured[0].startTime,
+    duration: stats.median,
+    errorCount: measured.reduce((sum, result) => sum + result.errorCount, 0),
+    stats,
+  }
+}
+
+// Walk the source once as its own timed phase, reported under TRAVERSAL_ID. Returns a source
+// replaying the collected items from memory, or null when the traversal was cancelled.
+async function traverse(
+  source: FileSource,
+  onEvent: (event: RunEvent) => void,
+  signal?: AbortSignal,
+): Promise<{ replay: FileSource; fileCount: number } | null> {
+  const items: Array<SourceItem> = []
+  const thread = typeof window === 'undefined' ? 'worker' : 'main'
+
+  onEvent({ type: 'start', benchmarkId: TRAVERSAL_ID })
+  const result = await benchmarkTraversal(source, items, {
+    signal,
+    onProgress: progressReporter(TRAVERSAL_ID, onEvent),
+  })
+  onEvent({ type: 'result', benchmarkId: TRAVERSAL_ID, result: { ...result, thread } })
+
+  return result.aborted ? null : { replay: () => walkItems(items), fileCount: result.fileCount }
+}
+
+// Traverse the source, then run the selected steps in order against the collected items,
+// stopping after the one that was running when the signal fired
+export async function runBenchmarks(
+  selection: BenchmarkSelection,
+  source: FileSource,
+  config: RunConfig,
+  onEvent: (event: RunEvent) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const thread = typeof window === 'undefined' ? 'worker' : 'main'
+  const steps = selectSteps(selection)
+  const traversal = await traverse(source, onEvent, signal)
+  if (!traversal) return
+  // Benchmarks that can't tell how many files they'll get through assume the source's size
+  const expectedFiles = traversal.fileCount || undefined
+
+  for (const step of steps) {
+    if (signal?.aborted) break
+
+    const context: BenchmarkContext = {
+      signal,
+      onProgress: progressReporter(step.id, onEvent, expectedFiles),
+    }
+
+    try {
+      console.log(`${step.title} START`)
+      onEvent({ type: 'start', benchmarkId: step.id })
+      const result = await runIterations(step, traversal.replay, config, context)
+      console.log(`${step.title} ${result.aborted ? 'ABORTED' : 'DONE'}`)
+      onEvent({ type: 'result', benchmarkId: step.id, result: { ...result, thread } })
+    } catch (error) {
+      if (signal?.aborted) {
+        onEvent({ type: 'error', benchmarkId: step.id, error: 'Cancelled' })
+        break
+      }
+      console.error(`Error running ${step.title} benchmark:`, error)
+      onEvent({ type: 'error', benchmarkId: step.id, error: String(error) })
+    }
+  }
+}
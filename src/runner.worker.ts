@@ -0,0 +1,69 @@
+// Dedicated worker that runs benchmarks off the main thread
+import { backends } from './backends.ts'
+import { type FileSource, type SourceItem, walkHandles, walkItems } from './files.ts'
+import { type DatasetSpec, datasetSource } from './generator.ts'
+import { type BenchmarkSelection, type RunConfig, type RunEvent, runBenchmarks } from './runner.ts'
+
+// Files collected on the main thread, directory handles the worker walks itself,
+// or a synthetic dataset the worker generates itself
+export type RunnerInput =
+  | { kind: 'items'; items: Array<SourceItem> }
+  | { kind: 'handles'; handles: Array<FileSystemHandle> }
+  | { kind: 'dataset'; spec: DatasetSpec }
+
+export type RunnerRequest =
+  | {
+      type: 'run'
+      selection: BenchmarkSelection
+      input: RunnerInput
+      config: RunConfig
+    }
+  | { type: 'cancel' }
+
+export type RunnerResponse = RunEvent | { type: 'done' } | { type: 'failed'; error: string }
+
+function inputSource(input: RunnerInput): FileSource {
+  switch (input.kind) {
+    case 'items':
+      return () => walkItems(input.items)
+    case 'handles':
+      return () => walkHandles(input.handles)
+    case 'dataset':
+      return datasetSource(input.spec)
+  }
+}
+
+// Aborted by a 'cancel' message, which arrives while the run is awaiting
+let controller: AbortController | null = null
+
+self.onmessage = async (event: MessageEvent<RunnerRequest>) => {
+  if (event.data.type === 'cancel') {
+    controller?.abort()
+    return
+  }
+
+  const { selection, input, config } = event.data
+  let response: RunnerResponse = { type: 'done' }
+  controller = new AbortController()
+
+  try {
+    const source = inputSource(input)
+    await runBenchmarks(
+      selection,
+      source,
+      config,
+      (runEvent) => self.postMessage(runEvent satisfies RunnerResponse),
+      controller.signal,
+    )
+  } catch (error) {
+    response = { type: 'failed', error: String(error) }
+  } finally {
+    controller = null
+    // Release connections so the main thread can delete the databases
+    for (const backend of backends) {
+      backend.close()
+    }
+  }
+
+  self.postMessage(response)
+}
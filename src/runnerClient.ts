@@ -0,0 +1,56 @@
+import { collectItems, walkEntries } from './files.ts'
+import type { BenchmarkSelection, RunConfig, RunEvent } from './runner.ts'
+import type { RunnerInput, RunnerRequest, RunnerResponse } from './runner.worker.ts'
+
+// Run benchmarks in a fresh dedicated worker, resolving once every benchmark has finished.
+// Aborting the signal asks the worker to stop, it still reports the partial result and 'done'.
+export function runInWorker(
+  selection: BenchmarkSelection,
+  input: RunnerInput,
+  config: RunConfig,
+  onEvent: (event: RunEvent) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./runner.worker.ts', import.meta.url), { type: 'module' })
+    signal?.addEventListener(
+      'abort',
+      () => worker.postMessage({ type: 'cancel' } satisfies RunnerRequest),
+      { once: true },
+    )
+
+    worker.onmessage = (event: MessageEvent<RunnerResponse>) => {
+      const response = event.data
+      if (response.type === 'done') {
+        worker.terminate()
+        resolve()
+      } else if (response.type === 'failed') {
+        worker.terminate()
+        reject(new Error(response.error))
+      } else {
+        onEvent(response)
+      }
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(`Benchmark worker error: ${event.message}`))
+    }
+
+    worker.postMessage({ type: 'run', selection, input, config } satisfies RunnerRequest)
+  })
+}
+
+// Prefer directory handles the worker can walk itself, falling back to collecting the
+// dropped entries on the main thread, since legacy entries can't be posted
+export async function prepareWorkerInput(
+  entries: Array<any>,
+  handlePromises: Array<Promise<FileSystemHandle | null>>,
+): Promise<RunnerInput> {
+  const handles = (await Promise.all(handlePromises)).filter(
+    (handle): handle is FileSystemHandle => !!handle,
+  )
+  if (handles.length > 0 && handles.length === entries.length) {
+    return { kind: 'handles', handles }
+  }
+  return { kind: 'items', items: await collectItems(() => walkEntries(entries)) }
+}
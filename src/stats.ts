@@ -0,0 +1,81 @@
+// Aggregate over the measured iterations of one benchmark
+export type BenchmarkStats = {
+  iterations: number
+  warmupIterations: number
+  durations: Array<number>
+  min: number
+  median: number
+  mean: number
+  p95: number
+  stddev: number
+  // Throughput based on the median duration
+  mbPerSec: number
+  filesPerSec: number
+}
+
+// Coefficient of variation above which a result is flagged as too noisy
+export const HIGH_VARIANCE_THRESHOLD = 0.1
+
+// Linear-interpolated percentile of an ascending sorted array, p in [0, 100]
+export function percentile(sorted: Array<number>, p: number): number {
+  if (sorted.length === 0) return 0
+  const rank = (p / 100) * (sorted.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+}
+
+export function summarize(
+  durations: Array<number>,
+  warmupIterations: number,
+  totalSize: number,
+  fileCount: number,
+): BenchmarkStats {
+  const sorted = [...durations].sort((a, b) => a - b)
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / Math.max(sorted.length, 1)
+  const variance =
+    sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(sorted.length - 1, 1)
+  const median = percentile(sorted, 50)
+  const seconds = median / 1000
+
+  return {
+    iterations: durations.length,
+    warmupIterations,
+    durations,
+    min: sorted[0] ?? 0,
+    median,
+    mean,
+    p95: percentile(sorted, 95),
+    stddev: Math.sqrt(variance),
+    mbPerSec: seconds > 0 ? totalSize / (1024 * 1024) / seconds : 0,
+    filesPerSec: seconds > 0 ? fileCount / seconds : 0,
+  }
+}
+
+export function isHighVariance(stats: BenchmarkStats): boolean {
+  return stats.mean > 0 && stats.stddev / stats.mean > HIGH_VARIANCE_THRESHOLD
+}
+
+// Spread of individual operation latencies within one benchmark run, in ms
+export type LatencyStats = {
+  count: number
+  min: number
+  p50: number
+  p95: number
+  p99: number
+  max: number
+  mean: number
+}
+
+export function summarizeLatencies(latencies: Array<number>): LatencyStats {
+  const sorted = [...latencies].sort((a, b) => a - b)
+  return {
+    count: sorted.length,
+    min: sorted[0] ?? 0,
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    max: sorted[sorted.length - 1] ?? 0,
+    mean: sorted.reduce((sum, value) => sum + value, 0) / Math.max(sorted.length, 1),
+  }
+}
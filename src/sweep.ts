@@ -0,0 +1,106 @@
+import { type StorageOptions, type TransactionMode, backends } from './backends.ts'
+import { type BenchmarkConfig, benchmarkRead, benchmarkWrite, isPopulated } from './benchmarks.ts'
+
+// Grid of storage options to run the write and read benchmarks across
+export type SweepConfig = {
+  batchSizes: Array<number>
+  durabilities: Array<IDBTransactionDurability>
+  transactionModes: Array<TransactionMode>
+}
+
+export const defaultSweepConfig: SweepConfig = {
+  batchSizes: [1, 10, 100, 500, 2000],
+  durabilities: ['strict', 'relaxed', 'default'],
+  transactionModes: ['per-batch', 'single'],
+}
+
+export type SweepOperation = 'write' | 'read'
+
+// One point of the grid for one backend and operation
+export type SweepCell = {
+  id: string
+  backendId: string
+  operation: SweepOperation
+  options: StorageOptions
+  // For reads, the write cell with the same options
+  writeId?: string
+}
+
+// Batch size is meaningless with a single transaction, so that mode gets one cell per durability
+function optionGrid(config: SweepConfig): Array<StorageOptions> {
+  const grid: Array<StorageOptions> = []
+  for (const transactionMode of config.transactionModes) {
+    for (const durability of config.durabilities) {
+      if (transactionMode === 'single') {
+        grid.push({ durability, transactionMode })
+      } else {
+        for (const batchSize of config.batchSizes) {
+          grid.push({ batchSize, durability, transactionMode })
+        }
+      }
+    }
+  }
+  return grid
+}
+
+export function describeOptions(options: StorageOptions): string {
+  const batch =
+    options.transactionMode === 'single' ? 'single transaction' : `batch ${options.batchSize}`
+  return `${batch}, ${options.durability ?? 'strict'}`
+}
+
+// Every cell of the sweep, in run order: each write is directly followed by its read.
+// Deterministic, so the main thread and a worker agree on ids.
+export function sweepCells(config: SweepConfig): Array<SweepCell> {
+  const cells: Array<SweepCell> = []
+  for (const backend of backends.filter((backend) => backend.transactional)) {
+    for (const options of optionGrid(config)) {
+      const suffix = `${options.transactionMode}-${options.batchSize ?? 'all'}-${options.durability}`
+      const writeId = `sweep-${backend.id}-write-${suffix}`
+      cells.push(
+        { id: writeId, backendId: backend.id, operation: 'write', options },
+        {
+          id: `sweep-${backend.id}-read-${suffix}`,
+          backendId: backend.id,
+          operation: 'read',
+          options,
+          writeId,
+        },
+      )
+    }
+  }
+  return cells
+}
+
+export function sweepBenchmarks(config: SweepConfig): Array<BenchmarkConfig> {
+  return sweepCells(config).map((cell) => {
+    const backend = backends.find((backend) => backend.id === cell.backendId)!
+    const title = `${cell.operation === 'write' ? 'Write to' : 'Read from'} ${
+      backend.title
+    } (${describeOptions(cell.options)})`
+
+    if (cell.operation === 'write') {
+      return {
+        id: cell.id,
+        title,
+        backendId: backend.id,
+        isPopulated: (options) => isPopulated(backend, { ...options, ...cell.options }),
+        // Every write starts from an empty store so cells are comparable
+        setup: async () => {
+          await backend.init()
+          await backend.clear()
+        },
+        runBenchmark: (source, options, context) =>
+          benchmarkWrite(backend, source, { ...options, ...cell.options }, context),
+      }
+    }
+    return {
+      id: cell.id,
+      title,
+      backendId: backend.id,
+      requires: cell.writeId,
+      runBenchmark: (_source, options, context) =>
+        benchmarkRead(backend, { ...options, ...cell.options }, context),
+    }
+  })
+}
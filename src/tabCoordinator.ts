@@ -0,0 +1,251 @@
+import type { StorageOptions, StoredFile } from './backends.ts'
+import { type BenchmarkResult, benchmarkTabRead, benchmarkTabWrite } from './benchmarks.ts'
+import { collectItems } from './files.ts'
+import { type DatasetSpec, datasetSource } from './generator.ts'
+import {
+  type TabConnection,
+  type TabMessage,
+  type TabRole,
+  type TabRun,
+  type TabWorkload,
+  closeTabConnection,
+  createTabConnection,
+  deleteTabDatabase,
+  tabBatchSize,
+  tabDatabase,
+  tabKeys,
+  tabRole,
+  writeTabBatch,
+} from './tabs.ts'
+
+const CHANNEL_NAME = 'benchmark-tabs'
+// Held by the tab leading a run, so only one tab leads at a time
+const LEADER_LOCK = 'benchmark-tabs-leader'
+// Held exclusively by the leader while tabs prepare. Every tab queues for it in shared mode,
+// so all of them are let in at once when the leader releases it.
+const START_LOCK = 'benchmark-tabs-start'
+// Followers answer right away, preparing can take a while on big datasets
+const JOIN_TIMEOUT = 1000
+const READY_TIMEOUT = 60_000
+const RESULT_TIMEOUT = 10 * 60_000
+
+// Identifies this tab in multi-tab results
+export const tabId = crypto.randomUUID().slice(0, 8)
+
+// One tab's outcome, the leader's comes first
+export type TabReport = {
+  tabId: string
+  leader: boolean
+  role: TabRole
+  result: BenchmarkResult | null
+  error?: string
+}
+
+// Set while this tab leads, so its own follower channel ignores the run
+let leading = false
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// Resolve once check() holds, re-checked after every message, or after the timeout
+function waitUntil(
+  channel: BroadcastChannel,
+  check: () => boolean,
+  timeout: number,
+): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer)
+      channel.removeEventListener('message', onMessage)
+      resolve()
+    }
+    const onMessage = () => {
+      if (check()) done()
+    }
+    const timer = setTimeout(done, timeout)
+    channel.addEventListener('message', onMessage)
+    if (check()) done()
+  })
+}
+
+// The dataset's files under a per-tab prefix, so tabs writing at once don't overwrite each other
+async function datasetFiles(spec: DatasetSpec, prefix: string): Promise<Array<StoredFile>> {
+  const items = await collectItems(datasetSource(spec))
+  return items.flatMap((item) =>
+    item.kind === 'file' ? [{ path: `/${prefix}${item.path}`, file: item.file }] : [],
+  )
+}
+
+// Do this tab's untimed preparation, returning its role and the timed workload
+async function prepareWorkload(
+  run: TabRun,
+  leader: boolean,
+  connection: TabConnection,
+): Promise<{ role: TabRole; start: () => Promise<BenchmarkResult> }> {
+  const role = tabRole(run.workload, leader)
+  if (role === 'read') {
+    const keys = await tabKeys(connection)
+    return { role, start: () => benchmarkTabRead(connection, keys, run.options) }
+  }
+
+  const files = await datasetFiles(run.spec, tabId)
+  // Only the leader upgrades, halfway through its batches
+  const batches = Math.ceil(files.length / tabBatchSize(run.options))
+  const upgradeAt = run.workload === 'upgrade' && leader ? Math.floor(batches / 2) : undefined
+  // Opening the database isn't part of the workload
+  await tabDatabase(connection)
+  return { role, start: () => benchmarkTabWrite(connection, files, run.options, upgradeAt) }
+}
+
+// Seed the shared database for workloads that read, untimed
+async function seedTabDatabase(
+  connection: TabConnection,
+  spec: DatasetSpec,
+  options: StorageOptions,
+): Promise<void> {
+  const files = await datasetFiles(spec, 'seed')
+  const batchSize = tabBatchSize(options)
+  for (let i = 0; i < files.length; i += batchSize) {
+    await writeTabBatch(connection, files.slice(i, i + batchSize), options)
+  }
+}
+
+async function coordinateTabRun(
+  workload: TabWorkload,
+  spec: DatasetSpec,
+  options: StorageOptions,
+  onStatus: (status: string) => void,
+): Promise<Array<TabReport>> {
+  const run: TabRun = { runId: crypto.randomUUID(), workload, spec, options }
+  const channel = new BroadcastChannel(CHANNEL_NAME)
+  const connection = createTabConnection()
+  const joined = new Set<string>()
+  const ready = new Set<string>()
+  const reports = new Map<string, TabReport>()
+  let release = () => {}
+
+  channel.addEventListener('message', (event: MessageEvent<TabMessage>) => {
+    const message = event.data
+    if (message.type === 'prepare' || message.runId !== run.runId) return
+    if (message.type === 'joined') {
+      joined.add(message.tabId)
+    } else if (message.type === 'ready') {
+      ready.add(message.tabId)
+    } else if (message.type === 'result') {
+      const { tabId, role, result } = message
+      reports.set(tabId, { tabId, leader: false, role, result })
+    } else {
+      const { tabId, role, error } = message
+      reports.set(tabId, { tabId, leader: false, role, result: null, error })
+    }
+  })
+
+  try {
+    onStatus('Preparing the shared database')
+    await deleteTabDatabase()
+    if (tabRole(workload, false) === 'read') {
+      await seedTabDatabase(connection, spec, options)
+    }
+    const own = await prepareWorkload(run, true, connection)
+
+    // Keep followers from starting until every one of them is ready
+    const held = new Promise<void>((resolve) => {
+      release = resolve
+    })
+    await new Promise<void>((acquired) => {
+      navigator.locks.request(START_LOCK, () => {
+        acquired()
+        return held
+      })
+    })
+
+    onStatus('Waiting for follower tabs')
+    channel.postMessage({ type: 'prepare', run } satisfies TabMessage)
+    await delay(JOIN_TIMEOUT)
+    await waitUntil(
+      channel,
+      () => [...joined].every((id) => ready.has(id) || reports.has(id)),
+      READY_TIMEOUT,
+    )
+    const started = [...ready].filter((id) => !reports.has(id))
+
+    // Queue up with the followers, then let everyone in at once
+    const ownResult = navigator.locks.request(START_LOCK, { mode: 'shared' }, own.start)
+    release()
+    onStatus(`Running in ${started.length + 1} tabs`)
+    const leaderReport: TabReport = { tabId, leader: true, role: own.role, result: await ownResult }
+
+    onStatus('Collecting results')
+    await waitUntil(channel, () => started.every((id) => reports.has(id)), RESULT_TIMEOUT)
+    for (const id of started) {
+      if (!reports.has(id)) {
+        const role = tabRole(workload, false)
+        reports.set(id, { tabId: id, leader: false, role, result: null, error: 'No result' })
+      }
+    }
+    return [leaderReport, ...reports.values()]
+  } finally {
+    release()
+    channel.close()
+    closeTabConnection(connection)
+    await deleteTabDatabase()
+  }
+}
+
+// Lead a run across every tab following along: prepare them, start them together through
+// the start lock, and collect what each one measured
+export async function leadTabRun(
+  workload: TabWorkload,
+  spec: DatasetSpec,
+  options: StorageOptions,
+  onStatus: (status: string) => void,
+): Promise<Array<TabReport>> {
+  return navigator.locks.request(LEADER_LOCK, { ifAvailable: true }, async (lock) => {
+    if (!lock) throw new Error('Another tab is already leading a multi-tab run')
+    leading = true
+    try {
+      return await coordinateTabRun(workload, spec, options, onStatus)
+    } finally {
+      leading = false
+    }
+  })
+}
+
+// Take part in runs other tabs lead, until the returned function is called
+export function followTabRuns(onStatus: (status: string) => void): () => void {
+  const channel = new BroadcastChannel(CHANNEL_NAME)
+
+  channel.onmessage = async (event: MessageEvent<TabMessage>) => {
+    if (event.data.type !== 'prepare' || leading) return
+    const { run } = event.data
+    const { runId } = run
+    const role = tabRole(run.workload, false)
+    const connection = createTabConnection()
+    channel.postMessage({ type: 'joined', runId, tabId } satisfies TabMessage)
+
+    try {
+      onStatus('Preparing for a run led by another tab')
+      const own = await prepareWorkload(run, false, connection)
+      // Queued before saying so, the leader releases the start lock once everyone is ready
+      const result = navigator.locks.request(START_LOCK, { mode: 'shared' }, own.start)
+      channel.postMessage({ type: 'ready', runId, tabId } satisfies TabMessage)
+      onStatus(`Waiting to ${role} with the other tabs`)
+      channel.postMessage({
+        type: 'result',
+        runId,
+        tabId,
+        role,
+        result: await result,
+      } satisfies TabMessage)
+      onStatus('Done, results sent to the leading tab')
+    } catch (error) {
+      channel.postMessage({ type: 'failed', runId, tabId, role, error: String(error) })
+      onStatus(`Failed: ${error}`)
+    } finally {
+      closeTabConnection(connection)
+    }
+  }
+
+  return () => channel.close()
+}
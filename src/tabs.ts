@@ -0,0 +1,157 @@
+import { type IDBPDatabase, deleteDB, openDB } from 'idb'
+import type { StorageOptions, StoredFile } from './backends.ts'
+import type { BenchmarkResult } from './benchmarks.ts'
+import { decodeValue, encodeValue, readValueSize } from './encoding.ts'
+import type { DatasetSpec } from './generator.ts'
+
+// What the tabs of a multi-tab run do at the same time on the database they share
+export type TabWorkload = 'write' | 'read' | 'mixed' | 'upgrade'
+
+export const tabWorkloads: Array<{ id: TabWorkload; title: string }> = [
+  { id: 'write', title: 'Every tab writes' },
+  { id: 'read', title: 'Every tab reads' },
+  { id: 'mixed', title: 'Leader writes, followers read' },
+  { id: 'upgrade', title: 'Every tab writes, leader upgrades the database midway' },
+]
+
+export type TabRole = 'write' | 'read'
+
+export function tabRole(workload: TabWorkload, leader: boolean): TabRole {
+  if (workload === 'read' || (workload === 'mixed' && !leader)) return 'read'
+  return 'write'
+}
+
+// A run as the leader announces it, followers generate the same dataset from the spec
+export type TabRun = {
+  runId: string
+  workload: TabWorkload
+  spec: DatasetSpec
+  options: StorageOptions
+}
+
+// Messages on the BroadcastChannel between the leader and its followers
+export type TabMessage =
+  | { type: 'prepare'; run: TabRun }
+  | { type: 'joined'; runId: string; tabId: string }
+  | { type: 'ready'; runId: string; tabId: string }
+  | { type: 'result'; runId: string; tabId: string; role: TabRole; result: BenchmarkResult }
+  | { type: 'failed'; runId: string; tabId: string; role: TabRole; error: string }
+
+// How much a tab was held up by other tabs' connections
+export type ContentionStats = {
+  // Time this tab's upgrades waited for other tabs to close their connections
+  blockedDuration: number
+  // blocked events on this tab's upgrades, versionchange events from other tabs' upgrades
+  blockedEvents: number
+  versionChangeEvents: number
+}
+
+export function emptyContention(): ContentionStats {
+  return { blockedDuration: 0, blockedEvents: 0, versionChangeEvents: 0 }
+}
+
+const TAB_DB_NAME = 'filesDB_tabs'
+const STORE_NAME = 'files'
+const BATCH_SIZE = 500
+
+// One tab's connection to the shared database. It's closed as soon as another tab upgrades
+// the database, and reopened at the new version on next use.
+export type TabConnection = {
+  db: IDBPDatabase | null
+  contention: ContentionStats
+}
+
+export function createTabConnection(): TabConnection {
+  return { db: null, contention: emptyContention() }
+}
+
+// The connection's database, (re)opened when needed. Passing a version upgrades the database.
+export async function tabDatabase(
+  connection: TabConnection,
+  version?: number,
+): Promise<IDBPDatabase> {
+  if (connection.db && version === undefined) return connection.db
+  connection.db?.close()
+  connection.db = null
+
+  const { contention } = connection
+  let blockedAt: number | null = null
+  const db = await openDB(TAB_DB_NAME, version, {
+    upgrade(database) {
+      if (!database.objectStoreNames.contains(STORE_NAME)) {
+        database.createObjectStore(STORE_NAME)
+      }
+    },
+    blocked() {
+      contention.blockedEvents++
+      blockedAt ??= performance.now()
+    },
+    // Another tab is upgrading, let it through
+    blocking() {
+      contention.versionChangeEvents++
+      connection.db?.close()
+      connection.db = null
+    },
+  })
+  if (blockedAt !== null) {
+    contention.blockedDuration += performance.now() - blockedAt
+  }
+  connection.db = db
+  return db
+}
+
+export function closeTabConnection(connection: TabConnection): void {
+  connection.db?.close()
+  connection.db = null
+}
+
+// Write one batch in one transaction, upgrading the database first when a version is given
+export async function writeTabBatch(
+  connection: TabConnection,
+  files: Array<StoredFile>,
+  options: StorageOptions = {},
+  version?: number,
+): Promise<void> {
+  // Encode before opening the transaction, it would auto-commit while we await
+  const values = await Promise.all(files.map(({ file }) => encodeValue(file, options.encoding)))
+  const db = await tabDatabase(connection, version)
+  const tx = db.transaction(STORE_NAME, 'readwrite', {
+    durability: options.durability ?? 'strict',
+  })
+  files.forEach((stored, index) => {
+    tx.store.put(values[index], stored.path)
+  })
+  await tx.done
+}
+
+// Read one batch of keys in one transaction, returning how many came back and their size
+export async function readTabBatch(
+  connection: TabConnection,
+  keys: Array<string>,
+): Promise<{ count: number; size: number }> {
+  const db = await tabDatabase(connection)
+  const tx = db.transaction(STORE_NAME, 'readonly')
+  const values = await Promise.all(keys.map((key) => tx.store.get(key)))
+  await tx.done
+
+  let count = 0
+  let size = 0
+  for (const value of values.map(decodeValue)) {
+    if (!value) continue
+    count++
+    size += readValueSize(value)
+  }
+  return { count, size }
+}
+
+export async function tabKeys(connection: TabConnection): Promise<Array<string>> {
+  return (await (await tabDatabase(connection)).getAllKeys(STORE_NAME)) as Array<string>
+}
+
+export function tabBatchSize(options: StorageOptions): number {
+  return Math.max(options.batchSize ?? BATCH_SIZE, 1)
+}
+
+export async function deleteTabDatabase(): Promise<void> {
+  await deleteDB(TAB_DB_NAME)
+}
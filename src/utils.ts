@@ -8,3 +8,31 @@ export function formatBytes(bytes: number): string {
 
   return `${Number.parseFloat((bytes / k ** i).toFixed(2))} ${sizes[i]}`
 }
+
+// Seeded PRNG (mulberry32) returning floats in [0, 1), so runs are reproducible across browsers
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Save a generated text file through a temporary download link
+export function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Signed percentage for display, e.g. "+12.3%"
+export function formatPercent(value: number | null): string {
+  if (value === null) return '–'
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}%`
+}